@@ -1,13 +1,59 @@
 export { RateLimiter } from "./rate-limiter/index.js";
 export type {
+	AcquireOptions,
+	AnalyticsOptions,
+	KeyUsage,
+	LimitManyOptions,
+	LimitOptions,
+	LimitOverride,
+	LimitParams,
+	OverrideOptions,
+	PenaltyPolicy,
 	RateLimiterConfig,
 	RateLimitResult,
+	RateLimitRule,
+	RedisErrorHandler,
+	RefundOptions,
+	Reservation,
+	TopKey,
+	UsageRange,
 } from "./rate-limiter/index.js";
+export type { ClockOption } from "./rate-limiter/clock.js";
+export { ConcurrencyLimiter } from "./rate-limiter/concurrency.js";
+export type {
+	ConcurrencyLimiterConfig,
+	ConcurrencyResult,
+	Lease,
+} from "./rate-limiter/concurrency.js";
+export {
+	AcquireAbortedError,
+	AcquireTimeoutError,
+	RedisTimeoutError,
+} from "./rate-limiter/errors.js";
+export { rateLimitHeaders } from "./rate-limiter/headers.js";
+export {
+	expressRateLimit,
+	fastifyRateLimit,
+	httpRateLimit,
+} from "./rate-limiter/middleware.js";
+export type {
+	FastifyReplyLike,
+	FastifyRequestLike,
+	RateLimitMiddlewareOptions,
+} from "./rate-limiter/middleware.js";
 
 export { Leaderboard } from "./leaderboard/index.js";
 export type {
+	CustomPeriod,
+	HistogramBucket,
 	LeaderboardConfig,
 	LeaderboardEntry,
+	Page,
+	PageOptions,
+	Period,
+	PeriodicOptions,
+	RangeOptions,
+	ScoreChange,
 } from "./leaderboard/index.js";
 
 export { Cache } from "./cache/index.js";
@@ -1,5 +1,32 @@
-import type { Redis } from "ioredis";
+import type { ChainableCommander, Redis } from "ioredis";
 import { prefixKey } from "../utils/key.js";
+import { defineScript, evalScript } from "../utils/script.js";
+import { type Calendar, type PeriodSpan, createCalendar } from "./periods.js";
+import entriesLua from "./scripts/entries.lua";
+import pageLua from "./scripts/page.lua";
+import rangeLua from "./scripts/range.lua";
+import readLua from "./scripts/read.lua";
+import updateLua from "./scripts/update.lua";
+
+const ENTRIES_SCRIPT = defineScript(readLua, entriesLua);
+const PAGE_SCRIPT = defineScript(readLua, pageLua);
+const RANGE_SCRIPT = defineScript(readLua, rangeLua);
+const UPDATE_SCRIPT = defineScript(updateLua);
+
+/** Tie-break times count from here... */
+const TIE_EPOCH = Date.UTC(2020, 0, 1);
+/** ...across this many ms (2^42, about 139 years). */
+const TIE_HORIZON = 2 ** 42;
+
+/** Each update policy as ZADD's flag, and as the update script's policy. */
+const POLICIES = {
+	always: { flag: undefined, script: "always" },
+	keepHighest: { flag: "GT", script: "gt" },
+	keepLowest: { flag: "LT", script: "lt" },
+} as const;
+
+/** The update script's reply: score, previous score, previous rank, rank. */
+type UpdateReply = [string | null, string | null, number | null, number | null];
 
 // --- Configuration ---
 
@@ -16,115 +43,425 @@ export interface LeaderboardConfig {
 	 * - "lowToHigh": lowest score = rank 0. Use for race times, golf scores.
 	 */
 	sortOrder?: "highToLow" | "lowToHigh";
+	/**
+	 * How to order members with equal scores.
+	 * - "earliest": whoever reached the score first ranks higher
+	 * - "latest": whoever reached it last ranks higher
+	 * Scores must then be integers: the time is encoded in the stored
+	 * score's fraction. Default: by member, lexicographically
+	 */
+	tieBreaker?: "earliest" | "latest";
+	/**
+	 * How `rank` numbers members with equal scores.
+	 * - "ordinal" (default): their position — 0, 1, 2, 3, even if 1 and 2 tie
+	 * - "standard": the number of strictly better scores — 0, 1, 1, 3
+	 * - "dense": the number of distinct better scores — 0, 1, 1, 2
+	 * Dense ranking keeps the board's distinct scores in a second sorted
+	 * set, so it must be on from the board's first write.
+	 */
+	rankingMode?: "ordinal" | "standard" | "dense";
+	/**
+	 * Which score `upsert` keeps when the member already has one.
+	 * - "always" (default): the new one
+	 * - "keepHighest": the higher one, e.g. a personal best in points
+	 * - "keepLowest": the lower one, e.g. a personal best race time
+	 * Uses ZADD GT/LT, or a Lua script on servers older than Redis 6.2.
+	 * With periods, each board keeps its own best.
+	 */
+	updatePolicy?: "always" | "keepHighest" | "keepLowest";
+	/**
+	 * Also keep a board per period — daily, weekly, monthly or custom —
+	 * alongside the all-time one. Writes update the current board of
+	 * every period too; `period` queries them. Default: all-time only
+	 */
+	periodic?: PeriodicOptions;
+	/**
+	 * Where "now" comes from when picking the current period or timing
+	 * a tie, in epoch ms (e.g. a fake clock in tests). Default: `Date.now`
+	 */
+	clock?: () => number;
+}
+
+export interface PeriodicOptions {
+	/** The periods to keep boards for, e.g. `["daily", "weekly"]`. */
+	periods: Period[];
+	/**
+	 * IANA timezone whose midnight starts days, weeks and months
+	 * (e.g. "America/New_York"). Default: "UTC"
+	 */
+	timezone?: string;
+	/** The day weeks start on, 0 (Sunday) to 6. Default: 1 (Monday) */
+	weekStart?: number;
+	/**
+	 * How many past boards of each period stay queryable once their
+	 * period ends. Older boards expire. Default: 1
+	 */
+	keep?: number;
+}
+
+/**
+ * A period a board can be kept for. Its boards are named after it:
+ * "daily", "weekly", "monthly", or a custom period's `name`.
+ */
+export type Period = "daily" | "weekly" | "monthly" | CustomPeriod;
+
+/** A period of any fixed length, e.g. hourly or a 3-day event. */
+export interface CustomPeriod {
+	/** Names the period, e.g. "hourly". */
+	name: string;
+	/** Length in seconds. */
+	duration: number;
+	/**
+	 * Epoch ms at which one of its occurrences starts; the rest line up
+	 * with it. Default: 0, the Unix epoch
+	 */
+	origin?: number;
 }
 
 // --- Result types ---
 
-export interface LeaderboardEntry {
+export interface LeaderboardEntry<M = unknown> {
 	member: string;
 	score: number;
-	/** 0-indexed rank. */
+	/** 0-indexed rank, numbered according to `rankingMode`. */
+	rank: number;
+	/** The member's metadata, if any has been set. */
+	meta?: M;
+}
+
+/** What an `upsert` did to the member's standing on the board. */
+export interface ScoreChange {
+	/** Their score now — the previous one if the update policy kept it. */
+	score: number;
+	/** Their score before, or null if they weren't on the board. */
+	previousScore: number | null;
+	/** Their rank now, numbered according to `rankingMode`. */
 	rank: number;
+	/** Their rank before, or null if they weren't on the board. */
+	previousRank: number | null;
+}
+
+/** How many members have scores in one bucket of a histogram. */
+export interface HistogramBucket {
+	/** Lowest score in the bucket (inclusive). */
+	min: number;
+	/** Highest score in the bucket (exclusive). */
+	max: number;
+	count: number;
+}
+
+export interface PageOptions {
+	/** Where the previous page left off. Default: the top of the board */
+	cursor?: string;
+	/** How many entries the page holds at most. */
+	limit: number;
+}
+
+/** One page of a walk through the board; see `page`. */
+export interface Page<M = unknown> {
+	entries: LeaderboardEntry<M>[];
+	/** Pass back as `cursor` for the next page; null after the last. */
+	cursor: string | null;
+	/** How many members the board has, as of this page. */
+	total: number;
+}
+
+export interface RangeOptions {
+	/** How many matches to skip, counting from the lowest score. Default: 0 */
+	offset?: number;
+	/** How many matches to return at most. Default: all */
+	limit?: number;
+	/** Leave out scores equal to `min`. Default: false */
+	exclusiveMin?: boolean;
+	/** Leave out scores equal to `max`. Default: false */
+	exclusiveMax?: boolean;
 }
 
 // --- Main class ---
 
 /**
  * A Redis sorted-set-backed leaderboard with rank lookup, top-N,
- * and neighborhood queries.
+ * and neighborhood queries. `M` is the type of the optional metadata
+ * kept for each member (e.g. a display name), returned with entries.
  *
  * @example
  * ```ts
- * const lb = new Leaderboard({ redis, key: "weekly-scores" });
+ * const lb = new Leaderboard<{ name: string }>({ redis, key: "weekly-scores" });
  *
- * await lb.upsert("alice", 2850);
+ * await lb.upsert("alice", 2850, { name: "Alice" });
  * await lb.upsert("bob", 2340);
- * await lb.increment("alice", 50); // now 2900
+ * await lb.increment("alice", 50); // { score: 2900, previousScore: 2850, ... }
  *
  * const top3 = await lb.top(3);
- * const aliceRank = await lb.rank("alice"); // { member: "alice", score: 2900, rank: 0 }
+ * const aliceRank = await lb.rank("alice"); // { member: "alice", score: 2900, rank: 0, meta: { name: "Alice" } }
  * ```
  */
-export class Leaderboard {
+export class Leaderboard<M = unknown> {
+	private config: LeaderboardConfig;
 	private redis: Redis;
 	private redisKey: string;
+	/**
+	 * Where the board's companion keys live: beside the boards'
+	 * namespace rather than in it, so no board — not even one keyed
+	 * "scores:meta" — can land on them. "lb" → "lb|".
+	 */
+	private sidePrefix: string;
+	/** Member metadata as JSON, shared with every period's boards. */
+	private metaKey: string;
 	private desc: boolean;
+	private tieBreaker: LeaderboardConfig["tieBreaker"];
+	private rankingMode: NonNullable<LeaderboardConfig["rankingMode"]>;
+	private updatePolicy: NonNullable<LeaderboardConfig["updatePolicy"]>;
+	/** Whether writes go through the update script rather than plain commands. */
+	private scripted: boolean;
+	/**
+	 * Whether the server takes ZADD GT/LT. Cleared the first time it
+	 * refuses them (before Redis 6.2); the update script stands in.
+	 */
+	private conditionalZadd = true;
+	/** Configured periods by name; empty without `periodic`. */
+	private periods = new Map<string, Period>();
+	/**
+	 * The board whose metadata this one shares: itself, or for a period
+	 * board, the all-time board.
+	 */
+	private owner: Leaderboard<M> = this;
+	private calendar: Calendar;
+	/** How many past boards of each period outlive their period. */
+	private keep: number;
+	private now: () => number;
 
 	constructor(config: LeaderboardConfig) {
+		this.config = config;
 		this.redis = config.redis;
-		this.redisKey = prefixKey(config.prefix ?? "lb", config.key);
+		const prefix = config.prefix ?? "lb";
+		this.redisKey = prefixKey(prefix, config.key);
+		this.sidePrefix = `${prefix}|`;
+		this.metaKey = `${this.sidePrefix}meta:${config.key}`;
 		this.desc = (config.sortOrder ?? "highToLow") === "highToLow";
+		this.tieBreaker = config.tieBreaker;
+		this.rankingMode = config.rankingMode ?? "ordinal";
+		this.updatePolicy = config.updatePolicy ?? "always";
+		this.now = config.clock ?? Date.now;
+		this.keep = config.periodic?.keep ?? 1;
+		for (const period of config.periodic?.periods ?? []) {
+			this.periods.set(periodName(period), period);
+		}
+		this.calendar = createCalendar(
+			config.periodic?.timezone ?? "UTC",
+			config.periodic?.weekStart ?? 1,
+		);
+		this.scripted =
+			this.periods.size > 0 ||
+			this.tieBreaker !== undefined ||
+			this.rankingMode === "dense";
 	}
 
-	/** Add a member with a score, or replace their score if they already exist. */
-	async upsert(member: string, score: number): Promise<void> {
-		await this.redis.zadd(this.redisKey, score.toString(), member);
+	/**
+	 * Add a member with a score, or replace their score if they already
+	 * exist and `updatePolicy` allows. With periods, their score in each
+	 * current period is replaced too. With a tie-breaker, re-submitting
+	 * the same score keeps the time it was first reached. Passing `meta`
+	 * replaces the member's metadata in the same atomic call; leaving it
+	 * out keeps what's there.
+	 *
+	 * Returns the member's score and rank before and after, read in the
+	 * same atomic call, so other writers can't slip in between.
+	 *
+	 * @example
+	 * ```ts
+	 * const { rank, previousRank } = await lb.upsert("alice", 3000);
+	 * if (previousRank !== null && rank < previousRank) {
+	 *   console.log(`You moved up ${previousRank - rank} places!`);
+	 * }
+	 * ```
+	 */
+	async upsert(member: string, score: number, meta?: M): Promise<ScoreChange> {
+		const { flag } = POLICIES[this.updatePolicy];
+		if (
+			this.scripted ||
+			this.rankingMode !== "ordinal" ||
+			(flag && !this.conditionalZadd)
+		) {
+			return toScoreChange(await this.update("set", member, score, meta));
+		}
+
+		// Read the standing, write, and read it again in one transaction.
+		const transaction = this.redis.multi();
+		this.queueRank(transaction, member);
+		transaction.zscore(this.redisKey, member);
+		if (flag) {
+			transaction.zadd(this.redisKey, flag, score.toString(), member);
+		} else {
+			transaction.zadd(this.redisKey, score.toString(), member);
+		}
+		if (meta !== undefined) {
+			transaction.hset(this.metaKey, member, JSON.stringify(meta));
+		}
+		this.queueRank(transaction, member);
+		transaction.zscore(this.redisKey, member);
+		const results = (await transaction.exec()) ?? [];
+
+		if (results[2]?.[0]) {
+			// An older server refused the flag. The reads around it saw
+			// nothing change, so let the script do the whole update.
+			const reply = await this.update("set", member, score, meta);
+			this.conditionalZadd = false;
+			return toScoreChange(reply);
+		}
+		const last = results.length - 1;
+		return toScoreChange([
+			results[last][1],
+			results[1][1],
+			results[0][1],
+			results[last - 1][1],
+		] as UpdateReply);
+	}
+
+	/**
+	 * Replace a member's metadata without touching their score. It's
+	 * stored as JSON, so it must survive `JSON.stringify`.
+	 */
+	async setMeta(member: string, meta: M): Promise<void> {
+		await this.redis.hset(this.metaKey, member, JSON.stringify(meta));
+	}
+
+	/**
+	 * Increment a member's score by `amount`. With periods, their score
+	 * in each current period goes up by `amount` too, in the same atomic
+	 * call. The update policy doesn't apply: an increment always lands.
+	 *
+	 * Returns the member's score and rank before and after, like
+	 * `upsert`.
+	 */
+	async increment(member: string, amount: number): Promise<ScoreChange> {
+		if (this.scripted || this.rankingMode !== "ordinal") {
+			return toScoreChange(await this.update("incr", member, amount));
+		}
+
+		// Read the standing, write, and read it again in one transaction.
+		const transaction = this.redis.multi();
+		this.queueRank(transaction, member);
+		transaction.zscore(this.redisKey, member);
+		transaction.zincrby(this.redisKey, amount, member);
+		this.queueRank(transaction, member);
+		const results = (await transaction.exec()) ?? [];
+		return toScoreChange([
+			results[2][1],
+			results[1][1],
+			results[0][1],
+			results[3][1],
+		] as UpdateReply);
+	}
+
+	/**
+	 * The board of one configured period, for the occurrence `at` names:
+	 * a period ID like "2026-10-19" (see `periodId`), or a time within
+	 * it. By default, the current one — as of this call. Writes to the
+	 * returned board change only that board.
+	 *
+	 * @example
+	 * ```ts
+	 * const thisWeek = await lb.period("weekly").top(10);
+	 * const lastWeek = await lb.period("weekly", Date.now() - 7 * 86_400_000).top(10);
+	 * ```
+	 */
+	period(name: string, at?: string | number | Date): Leaderboard<M> {
+		this.requirePeriod(name);
+		const id = typeof at === "string" ? at : this.periodId(name, at);
+		const board = new Leaderboard<M>({
+			...this.config,
+			key: `${this.config.key}:${name}:${id}`,
+			periodic: undefined,
+		});
+		// Members keep one set of metadata across all boards.
+		board.metaKey = this.metaKey;
+		board.owner = this;
+		return board;
 	}
 
-	/** Increment a member's score by `amount`. Returns the new score. */
-	async increment(member: string, amount: number): Promise<number> {
-		const newScore = await this.redis.zincrby(this.redisKey, amount, member);
-		return Number.parseFloat(newScore);
+	/**
+	 * The ID of a configured period's occurrence at `at` (default: now),
+	 * e.g. "2026-10-19" for the day or the week starting then, "2026-10"
+	 * for a month, or its start in epoch seconds for a custom period.
+	 */
+	periodId(name: string, at?: number | Date): string {
+		return this.span(name, at === undefined ? this.now() : Number(at)).id;
 	}
 
 	/**
 	 * Get a member's rank and score.
 	 * Returns null if the member doesn't exist in the leaderboard.
 	 */
-	async rank(member: string): Promise<LeaderboardEntry | null> {
-		// Use a pipeline to fetch rank and score in one round trip.
-		const pipeline = this.redis.pipeline();
-		if (this.desc) {
-			pipeline.zrevrank(this.redisKey, member);
-		} else {
-			pipeline.zrank(this.redisKey, member);
+	async rank(member: string): Promise<LeaderboardEntry<M> | null> {
+		if (this.rankingMode !== "ordinal") {
+			// The rank follows from the score: count what's ahead of it.
+			const raw = await this.redis.zscore(this.redisKey, member);
+			if (raw === null) return null;
+			const score = this.decode(raw);
+			const results = await this.redis
+				.pipeline()
+				.zcount(...this.aheadOf(score))
+				.hget(this.metaKey, member)
+				.exec();
+			const rank = results?.[0][1] as number;
+			const meta = this.parseMeta(results?.[1][1] as string | null);
+			return { member, score, rank, meta };
 		}
+
+		// Use a pipeline to fetch rank, score and metadata in one round trip.
+		const pipeline = this.redis.pipeline();
+		this.queueRank(pipeline, member);
 		pipeline.zscore(this.redisKey, member);
+		pipeline.hget(this.metaKey, member);
 		const results = await pipeline.exec();
 
 		const rank = results?.[0][1] as number | null;
 		const score = results?.[1][1] as string | null;
+		const meta = this.parseMeta(results?.[2][1] as string | null);
 
 		if (rank === null || score === null) return null;
 
-		return { member, score: Number.parseFloat(score), rank };
+		return { member, score: this.decode(score), rank, meta };
 	}
 
 	/** Get the top `count` members. */
-	async top(count: number): Promise<LeaderboardEntry[]> {
-		const raw = this.desc
-			? await this.redis.zrevrange(this.redisKey, 0, count - 1, "WITHSCORES")
-			: await this.redis.zrange(this.redisKey, 0, count - 1, "WITHSCORES");
-
-		return this.parseWithScores(raw, 0);
+	async top(count: number): Promise<LeaderboardEntry<M>[]> {
+		return this.entries(0, count - 1, "");
 	}
 
 	/**
 	 * Get members around a given member (their neighborhood).
 	 * Returns up to `count` members above and `count` below, plus the member.
 	 */
-	async around(member: string, count: number): Promise<LeaderboardEntry[]> {
-		// First, find the member's rank
-		const memberRank = this.desc
-			? await this.redis.zrevrank(this.redisKey, member)
-			: await this.redis.zrank(this.redisKey, member);
-
-		if (memberRank === null) return [];
-
-		const start = Math.max(0, memberRank - count);
-		const stop = memberRank + count;
-
-		const raw = this.desc
-			? await this.redis.zrevrange(this.redisKey, start, stop, "WITHSCORES")
-			: await this.redis.zrange(this.redisKey, start, stop, "WITHSCORES");
-
-		return this.parseWithScores(raw, start);
+	async around(member: string, count: number): Promise<LeaderboardEntry<M>[]> {
+		return this.entries(count, count, member);
 	}
 
-	/** Remove a member. Returns true if the member existed. */
+	/**
+	 * Remove a member. Returns true if the member existed. With periods,
+	 * they're removed from each current period's board too; past boards
+	 * are left as they were. Their metadata goes once they're on no
+	 * board that shares it — the all-time board or any kept period board.
+	 */
 	async remove(member: string): Promise<boolean> {
-		const removed = await this.redis.zrem(this.redisKey, member);
-		return removed === 1;
+		const boards = this.owner.metaBoards();
+		if (!this.scripted && boards.length === 1) {
+			const results = await this.redis
+				.multi()
+				.zrem(this.redisKey, member)
+				.hdel(this.metaKey, member)
+				.exec();
+			return results?.[0][1] === 1;
+		}
+		const [, previousScore] = await this.update(
+			"rem",
+			member,
+			undefined,
+			undefined,
+			boards,
+		);
+		return previousScore !== null;
 	}
 
 	/** Total number of members in the leaderboard. */
@@ -132,64 +469,467 @@ export class Leaderboard {
 		return this.redis.zcard(this.redisKey);
 	}
 
-	/** Get all members with scores between `min` and `max` (inclusive). */
-	async range(min: number, max: number): Promise<LeaderboardEntry[]> {
-		// ZRANGEBYSCORE always returns low→high regardless of sort order.
-		// We fetch the members and scores, then look up actual ranks.
-		const raw = await this.redis.zrangebyscore(
+	/**
+	 * Walk the board in rank order, `limit` entries at a time. Pass the
+	 * returned `cursor` back for the next page. A cursor names the last
+	 * entry of its page, not a position, so members moving between
+	 * requests don't make the next page skip or repeat those around them.
+	 *
+	 * @example
+	 * ```ts
+	 * let page = await lb.page({ limit: 100 });
+	 * while (page.cursor) {
+	 *   page = await lb.page({ cursor: page.cursor, limit: 100 });
+	 * }
+	 * ```
+	 */
+	async page(options: PageOptions): Promise<Page<M>> {
+		const { limit } = options;
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new RangeError(`limit must be a positive integer, got ${limit}`);
+		}
+		const [score, member] =
+			options.cursor === undefined ? ["", ""] : parseCursor(options.cursor);
+		const [start, raw, metas, total] = (await evalScript(
+			this.redis,
+			PAGE_SCRIPT,
+			2,
 			this.redisKey,
+			this.metaKey,
+			this.desc ? "1" : "0",
+			limit,
+			score,
+			member,
+		)) as [number, string[], (string | null)[], number];
+
+		const entries = await this.parseWithScores(raw, start, metas);
+		const more = entries.length === limit && start + limit < total;
+		return {
+			entries,
+			cursor: more
+				? formatCursor(raw[raw.length - 1], raw[raw.length - 2])
+				: null,
+			total,
+		};
+	}
+
+	/**
+	 * Get all members with scores between `min` and `max` (inclusive by
+	 * default), lowest score first whatever the sort order. `offset` and
+	 * `limit` page through them from that end, like ZRANGEBYSCORE's
+	 * LIMIT. Each entry has its rank in the full leaderboard.
+	 */
+	async range(
+		min: number,
+		max: number,
+		options: RangeOptions = {},
+	): Promise<LeaderboardEntry<M>[]> {
+		const [lower, upper] = this.scoreRange(
 			min,
 			max,
-			"WITHSCORES",
+			options.exclusiveMin ?? false,
+			options.exclusiveMax ?? false,
 		);
+		const result = (await evalScript(
+			this.redis,
+			RANGE_SCRIPT,
+			2,
+			this.redisKey,
+			this.metaKey,
+			this.desc ? "1" : "0",
+			lower,
+			upper,
+			options.offset ?? 0,
+			options.limit ?? -1,
+		)) as [number, string[], (string | null)[]] | [];
+		if (result.length === 0) return [];
 
-		if (raw.length === 0) return [];
+		// The script gives the best entry's position; the rest are ranked
+		// from it. On high-to-low boards that entry comes last, so rank
+		// them in reverse and turn the result back around.
+		const [position, raw, metas] = result;
+		if (!this.desc) return this.parseWithScores(raw, position, metas);
+		const entries = await this.parseWithScores(
+			reversePairs(raw),
+			position,
+			[...metas].reverse(),
+		);
+		return entries.reverse();
+	}
 
-		// Parse the flat array into member/score pairs
-		const members: { member: string; score: number }[] = [];
-		for (let i = 0; i < raw.length; i += 2) {
-			members.push({
-				member: raw[i],
-				score: Number.parseFloat(raw[i + 1]),
-			});
+	/**
+	 * The percentage of the board, 0 to 100, with worse scores than the
+	 * member — "better" follows `sortOrder`. They're in the top
+	 * `100 - percentile` percent. Members with equal scores share a
+	 * percentile. Returns null if the member isn't on the board.
+	 *
+	 * @example
+	 * ```ts
+	 * const p = await lb.percentile("alice"); // 97.5
+	 * if (p !== null) console.log(`You're in the top ${100 - p}%!`);
+	 * ```
+	 */
+	async percentile(member: string): Promise<number | null> {
+		const raw = await this.redis.zscore(this.redisKey, member);
+		if (raw === null) return null;
+		const results = await this.redis
+			.pipeline()
+			.zcount(...this.behind(this.decode(raw)))
+			.zcard(this.redisKey)
+			.exec();
+		const worse = results?.[0][1] as number;
+		const total = results?.[1][1] as number;
+		return (100 * worse) / total;
+	}
+
+	/**
+	 * The entry at percentile `p` (0 to 100): the lowest-ranked member
+	 * placed above at least `p` percent of the board, by position. 0 is
+	 * the last member, 100 the first, and 90 the cut-off for the top
+	 * 10%. Returns null for an empty board.
+	 */
+	async atPercentile(p: number): Promise<LeaderboardEntry<M> | null> {
+		if (!(p >= 0 && p <= 100)) {
+			throw new RangeError(`percentile must be between 0 and 100, got ${p}`);
 		}
+		const total = await this.redis.zcard(this.redisKey);
+		if (total === 0) return null;
+		const position = Math.max(0, Math.floor(total - 1 - (p * total) / 100));
+		const [entry] = await this.entries(position, position, "");
+		return entry ?? null;
+	}
 
-		// Fetch actual ranks for each member in one round trip
+	/**
+	 * Count the members whose scores fall between each pair of adjacent
+	 * `boundaries`, in one round trip. Each bucket includes its lower
+	 * boundary and excludes its upper one; use `-Infinity` and
+	 * `Infinity` to catch every score. Buckets come best first, as
+	 * ranks do: highest scores first unless `sortOrder` is "lowToHigh".
+	 *
+	 * @example
+	 * ```ts
+	 * await lb.histogram([0, 1000, 2000, Infinity]);
+	 * // [{ min: 2000, max: Infinity, count: 3 }, { min: 1000, max: 2000, count: 1 }, ...]
+	 * ```
+	 */
+	async histogram(boundaries: number[]): Promise<HistogramBucket[]> {
+		if (boundaries.length < 2 || boundaries.some(Number.isNaN)) {
+			throw new RangeError("histogram needs at least two numeric boundaries");
+		}
+		const sorted = [...boundaries].sort((a, b) => a - b);
+		const buckets: HistogramBucket[] = [];
 		const pipeline = this.redis.pipeline();
-		for (const { member } of members) {
-			if (this.desc) {
-				pipeline.zrevrank(this.redisKey, member);
-			} else {
-				pipeline.zrank(this.redisKey, member);
+		for (let i = 0; i < sorted.length - 1; i++) {
+			const [min, max] = [sorted[i], sorted[i + 1]];
+			buckets.push({ min, max, count: 0 });
+			pipeline.zcount(this.redisKey, ...this.scoreRange(min, max, false, true));
+		}
+		const results = await pipeline.exec();
+		for (const [i, bucket] of buckets.entries()) {
+			bucket.count = results?.[i][1] as number;
+		}
+		return this.desc ? buckets.reverse() : buckets;
+	}
+
+	/**
+	 * Read a run of the board, with metadata, in one script run: from
+	 * position `before` to `after`, or — given a member — from `before`
+	 * positions above theirs to `after` below.
+	 */
+	private async entries(
+		before: number,
+		after: number,
+		member: string,
+	): Promise<LeaderboardEntry<M>[]> {
+		const result = (await evalScript(
+			this.redis,
+			ENTRIES_SCRIPT,
+			2,
+			this.redisKey,
+			this.metaKey,
+			this.desc ? "1" : "0",
+			before,
+			after,
+			member,
+		)) as [number, string[], (string | null)[]] | [];
+		if (result.length === 0) return [];
+		const [start, raw, metas] = result;
+		return this.parseWithScores(raw, start, metas);
+	}
+
+	/**
+	 * Apply a score change or removal to the all-time board and every
+	 * current period's board in one script run. Resolves the member's
+	 * all-time score and rank, before and after. A removal also deletes
+	 * the member's metadata if they're then on none of `metaBoards`.
+	 */
+	private async update(
+		mode: "incr" | "set" | "rem",
+		member: string,
+		value?: number,
+		meta?: M,
+		metaBoards: string[] = [],
+	): Promise<UpdateReply> {
+		if (this.tieBreaker && value !== undefined && !Number.isInteger(value)) {
+			throw new RangeError(
+				`scores must be integers with a tieBreaker, got ${value}`,
+			);
+		}
+		const now = this.now();
+		const keys = [this.metaKey, this.redisKey, this.distinctKey(this.redisKey)];
+		const expiries: string[] = [];
+		for (const name of this.periods.keys()) {
+			const span = this.span(name, now);
+			const board = this.periodKey(name, span.id);
+			keys.push(board, this.distinctKey(board));
+			expiries.push(this.expiry(name, span).toString());
+		}
+		keys.push(...metaBoards);
+
+		const policy = mode === "set" ? this.updatePolicy : "always";
+		return (await evalScript(
+			this.redis,
+			UPDATE_SCRIPT,
+			keys.length,
+			...keys,
+			mode,
+			member,
+			value?.toString() ?? "",
+			this.tieBreaker ? this.tieFraction(now).toString() : "",
+			this.rankingMode,
+			this.desc ? "1" : "0",
+			POLICIES[policy].script,
+			meta === undefined ? "" : JSON.stringify(meta),
+			...expiries,
+		)) as UpdateReply;
+	}
+
+	/**
+	 * Every board that may hold a member and shares this board's
+	 * metadata: this one, then each period's current board and the past
+	 * ones still kept.
+	 */
+	private metaBoards(): string[] {
+		const now = this.now();
+		const boards = [this.redisKey];
+		for (const name of this.periods.keys()) {
+			let span = this.span(name, now);
+			boards.push(this.periodKey(name, span.id));
+			for (let i = 0; i < this.keep; i++) {
+				span = this.span(name, span.start - 1);
+				boards.push(this.periodKey(name, span.id));
 			}
 		}
-		const rankResults = await pipeline.exec();
+		return boards;
+	}
 
-		return members.map((m, i) => ({
-			...m,
-			rank: rankResults?.[i][1] as number,
-		}));
+	/** Queue the command for the member's position: ZREVRANK or ZRANK. */
+	private queueRank(commands: ChainableCommander, member: string): void {
+		if (this.desc) {
+			commands.zrevrank(this.redisKey, member);
+		} else {
+			commands.zrank(this.redisKey, member);
+		}
+	}
+
+	/**
+	 * The fraction, 0 to 0.5, added to a score reached at `at` so that
+	 * equal scores sort by time: whichever time should rank higher gets
+	 * the fraction that sorts first. Its precision is what the integer
+	 * part leaves of a double's 53 bits — ties are told apart to the ms
+	 * for scores under 512, to about a second under 500,000, and more
+	 * coarsely above.
+	 */
+	private tieFraction(at: number): number {
+		const elapsed = Math.min(Math.max((at - TIE_EPOCH) / TIE_HORIZON, 0), 1);
+		const laterHigher = (this.tieBreaker === "latest") === this.desc;
+		return 0.5 * (laterHigher ? elapsed : 1 - elapsed);
+	}
+
+	/**
+	 * ZCOUNT arguments that count what ranks strictly ahead of `score`:
+	 * better scores on the board ("standard"), or distinct better scores
+	 * in the distinct set ("dense").
+	 */
+	private aheadOf(score: number): [string, string, string] {
+		const key =
+			this.rankingMode === "dense"
+				? this.distinctKey(this.redisKey)
+				: this.redisKey;
+		if (!this.desc) return [key, "-inf", `(${score}`];
+		// On the board, a tie-broken score s is stored as up to s + 0.5.
+		if (this.tieBreaker && this.rankingMode === "standard") {
+			return [key, `${score + 1}`, "+inf"];
+		}
+		return [key, `(${score}`, "+inf"];
+	}
+
+	/** Metadata as stored (JSON), or undefined if there's none. */
+	private parseMeta(raw: string | null): M | undefined {
+		return raw === null ? undefined : (JSON.parse(raw) as M);
+	}
+
+	/** ZCOUNT/ZRANGEBYSCORE bounds for scores from `min` to `max`. */
+	private scoreRange(
+		min: number,
+		max: number,
+		exclusiveMin: boolean,
+		exclusiveMax: boolean,
+	): [string, string] {
+		if (!this.tieBreaker) {
+			return [scoreBound(min, exclusiveMin), scoreBound(max, exclusiveMax)];
+		}
+		// With a tie-breaker, integer score s is stored in [s, s + 0.5].
+		return [
+			scoreBound(exclusiveMin ? Math.floor(min) + 1 : Math.ceil(min)),
+			scoreBound(exclusiveMax ? Math.ceil(max) : Math.floor(max) + 1, true),
+		];
+	}
+
+	/** ZCOUNT arguments that count the members with worse scores than `score`. */
+	private behind(score: number): [string, string, string] {
+		if (this.desc) return [this.redisKey, "-inf", `(${score}`];
+		// On the board, a tie-broken score s is stored as up to s + 0.5.
+		if (this.tieBreaker) return [this.redisKey, `${score + 1}`, "+inf"];
+		return [this.redisKey, `(${score}`, "+inf"];
+	}
+
+	/** A stored score as the caller sees it, minus any tie-break fraction. */
+	private decode(raw: string): number {
+		const stored = Number.parseFloat(raw);
+		return this.tieBreaker ? Math.floor(stored) : stored;
+	}
+
+	/** The occurrence of a configured period that `at` falls in. */
+	private span(name: string, at: number): PeriodSpan {
+		const period = this.requirePeriod(name);
+		return this.calendar.span(period, at);
+	}
+
+	private requirePeriod(name: string): Period {
+		const period = this.periods.get(name);
+		if (!period) {
+			throw new Error(`no "${name}" period is configured`);
+		}
+		return period;
+	}
+
+	/** The board of a period's occurrence, e.g. "lb:scores:weekly:2026-10-19". */
+	private periodKey(name: string, id: string): string {
+		return `${this.redisKey}:${name}:${id}`;
+	}
+
+	/**
+	 * A dense board's set of distinct scores, given the board's key:
+	 * "lb:scores" → "lb|distinct:scores".
+	 */
+	private distinctKey(board: string): string {
+		return `${this.sidePrefix}distinct:${board.slice(this.sidePrefix.length)}`;
+	}
+
+	/** Epoch ms at which an occurrence's board expires: `keep` periods after it ends. */
+	private expiry(name: string, span: PeriodSpan): number {
+		let last = span;
+		for (let i = 0; i < this.keep; i++) {
+			last = this.span(name, last.end);
+		}
+		return last.end;
 	}
 
 	/**
 	 * Parse the flat [member, score, member, score, ...] array returned
-	 * by ZRANGE/ZREVRANGE WITHSCORES into LeaderboardEntry objects.
+	 * by ZRANGE/ZREVRANGE WITHSCORES into LeaderboardEntry objects, with
+	 * `metas` holding each member's metadata in the same order.
 	 *
-	 * `startRank` is the rank of the first element in the result
-	 * (from the range query's start index).
+	 * `startRank` is the position of the first element in the result
+	 * (from the range query's start index). Under standard and dense
+	 * ranking, a first element past the top has its rank looked up;
+	 * the rest follow from it, since the elements are in rank order.
 	 */
-	private parseWithScores(
+	private async parseWithScores(
 		raw: string[],
 		startRank: number,
-	): LeaderboardEntry[] {
-		const entries: LeaderboardEntry[] = [];
+		metas: (string | null)[],
+	): Promise<LeaderboardEntry<M>[]> {
+		const entries: LeaderboardEntry<M>[] = [];
 		for (let i = 0; i < raw.length; i += 2) {
-			entries.push({
-				member: raw[i],
-				score: Number.parseFloat(raw[i + 1]),
-				rank: startRank + i / 2,
-			});
+			const position = startRank + i / 2;
+			const score = this.decode(raw[i + 1]);
+			const prev = entries[entries.length - 1];
+			let rank = position;
+			if (this.rankingMode !== "ordinal") {
+				if (!prev) {
+					rank =
+						position === 0
+							? 0
+							: await this.redis.zcount(...this.aheadOf(score));
+				} else if (score === prev.score) {
+					rank = prev.rank;
+				} else {
+					rank = this.rankingMode === "standard" ? position : prev.rank + 1;
+				}
+			}
+			const meta = this.parseMeta(metas[i / 2]);
+			entries.push({ member: raw[i], score, rank, meta });
 		}
 		return entries;
 	}
 }
+
+/** A score as a ZCOUNT/ZRANGEBYSCORE bound. Infinite ones are never exclusive. */
+function scoreBound(score: number, exclusive = false): string {
+	if (score === Number.POSITIVE_INFINITY) return "+inf";
+	if (score === Number.NEGATIVE_INFINITY) return "-inf";
+	return exclusive ? `(${score}` : `${score}`;
+}
+
+/** Flip a flat [member, score, ...] array end to end, keeping the pairs. */
+function reversePairs(raw: string[]): string[] {
+	const reversed: string[] = [];
+	for (let i = raw.length - 2; i >= 0; i -= 2) {
+		reversed.push(raw[i], raw[i + 1]);
+	}
+	return reversed;
+}
+
+/** An opaque page cursor naming an entry by its stored score and member. */
+function formatCursor(score: string, member: string): string {
+	return Buffer.from(JSON.stringify([score, member])).toString("base64url");
+}
+
+function parseCursor(cursor: string): [string, string] {
+	try {
+		const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString());
+		if (
+			Array.isArray(parsed) &&
+			parsed.length === 2 &&
+			!Number.isNaN(Number.parseFloat(parsed[0])) &&
+			typeof parsed[1] === "string"
+		) {
+			return [String(parsed[0]), parsed[1]];
+		}
+	} catch {
+		// Not base64url-encoded JSON; rejected below.
+	}
+	throw new RangeError(`invalid page cursor: ${cursor}`);
+}
+
+/** The update script's reply, parsed. */
+function toScoreChange([
+	score,
+	previousScore,
+	previousRank,
+	rank,
+]: UpdateReply): ScoreChange {
+	return {
+		score: Number.parseFloat(score as string),
+		previousScore:
+			previousScore === null ? null : Number.parseFloat(previousScore),
+		rank: rank as number,
+		previousRank,
+	};
+}
+
+function periodName(period: Period): string {
+	return typeof period === "string" ? period : period.name;
+}
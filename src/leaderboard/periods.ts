@@ -0,0 +1,120 @@
+import type { Period } from "./index.js";
+
+/** One occurrence of a period, e.g. the week starting 2026-10-19. */
+export interface PeriodSpan {
+	/** Names the occurrence in its board's key, e.g. "2026-10-19". */
+	id: string;
+	/** Epoch ms at which it starts. */
+	start: number;
+	/** Epoch ms at which it ends — when the next one starts. */
+	end: number;
+}
+
+/**
+ * Works out period boundaries in one timezone. Days, weeks and months
+ * start at local midnight there, so their length follows DST changes.
+ */
+export interface Calendar {
+	/** The occurrence of `period` that `at` (epoch ms) falls in. */
+	span(period: Period, at: number): PeriodSpan;
+}
+
+export function createCalendar(timeZone: string, weekStart: number): Calendar {
+	// Throws a RangeError for an unknown timezone.
+	const format = new Intl.DateTimeFormat("en-US", {
+		timeZone,
+		hourCycle: "h23",
+		year: "numeric",
+		month: "numeric",
+		day: "numeric",
+		hour: "numeric",
+		minute: "numeric",
+		second: "numeric",
+	});
+
+	/** The wall-clock time at `at`, as a UTC timestamp with the same fields. */
+	function wallClock(at: number): number {
+		const fields: Record<string, number> = {};
+		for (const { type, value } of format.formatToParts(at)) {
+			fields[type] = Number(value);
+		}
+		return Date.UTC(
+			fields.year,
+			fields.month - 1,
+			fields.day,
+			fields.hour,
+			fields.minute,
+			fields.second,
+		);
+	}
+
+	/** How far the timezone is ahead of UTC at `at` (a whole second). */
+	function offset(at: number): number {
+		return wallClock(at) - at;
+	}
+
+	/**
+	 * Epoch ms of local midnight on a date, given as a UTC timestamp of
+	 * that date's midnight. The offset is read twice, so a date whose
+	 * offset differs from the day before's still comes out right.
+	 */
+	function midnight(date: number): number {
+		return date - offset(date - offset(date));
+	}
+
+	function occurrence(first: Date, next: Date, id: string): PeriodSpan {
+		return {
+			id,
+			start: midnight(first.getTime()),
+			end: midnight(next.getTime()),
+		};
+	}
+
+	return {
+		span(period, at) {
+			if (typeof period === "object") {
+				const durationMs = period.duration * 1000;
+				const origin = period.origin ?? 0;
+				const start =
+					origin + Math.floor((at - origin) / durationMs) * durationMs;
+				return { id: `${start / 1000}`, start, end: start + durationMs };
+			}
+
+			// Today's date where the board lives, at UTC midnight.
+			const local = new Date(wallClock(at));
+			const year = local.getUTCFullYear();
+			const month = local.getUTCMonth();
+			const day = local.getUTCDate();
+			switch (period) {
+				case "daily":
+					return occurrence(
+						new Date(Date.UTC(year, month, day)),
+						new Date(Date.UTC(year, month, day + 1)),
+						dateId(local),
+					);
+				case "weekly": {
+					const first = day - ((local.getUTCDay() - weekStart + 7) % 7);
+					const start = new Date(Date.UTC(year, month, first));
+					return occurrence(
+						start,
+						new Date(Date.UTC(year, month, first + 7)),
+						dateId(start),
+					);
+				}
+				case "monthly": {
+					const start = new Date(Date.UTC(year, month, 1));
+					return occurrence(
+						start,
+						new Date(Date.UTC(year, month + 1, 1)),
+						dateId(start).slice(0, 7),
+					);
+				}
+			}
+		},
+	};
+}
+
+/** "2026-10-19" for a date at UTC midnight. */
+function dateId(date: Date): string {
+	return date.toISOString().slice(0, 10);
+}
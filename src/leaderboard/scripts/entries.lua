@@ -0,0 +1,36 @@
+-- Leaderboard entries with metadata (read-only)
+--
+-- Reads a run of the board in rank order along with each member's
+-- metadata, in one round trip. The run is given by position, or
+-- centered on a member, whose position is looked up first.
+--
+-- KEYS[1] = the sorted set (e.g. "lb:scores")
+-- KEYS[2] = the metadata hash (e.g. "lb|meta:scores")
+-- ARGV[1] = "1" if higher scores rank first, "0" if lower ones do
+-- ARGV[2] = first position — or, centered, how many positions before
+-- ARGV[3] = last position — or, centered, how many positions after
+-- ARGV[4] = the member to center on, or "" to read by position
+--
+-- Returns: { first position, { member, score, member, score, ... },
+--            { metadata JSON or false, ... } } — or {} when the member
+--            to center on isn't on the board
+
+local desc = ARGV[1] == '1'
+local start = tonumber(ARGV[2])
+local stop = tonumber(ARGV[3])
+
+if ARGV[4] ~= '' then
+    local position
+    if desc then
+        position = redis.call('ZREVRANK', KEYS[1], ARGV[4])
+    else
+        position = redis.call('ZRANK', KEYS[1], ARGV[4])
+    end
+    if not position then
+        return {}
+    end
+    start, stop = math.max(0, position - start), position + stop
+end
+
+local raw, metas = read_run(KEYS[1], KEYS[2], desc, start, stop)
+return { start, raw, metas }
@@ -0,0 +1,70 @@
+-- Leaderboard page (read-only)
+--
+-- Reads the page of the board that follows a cursor: the member and
+-- stored score of the last entry on the page before. Pages pick up
+-- after that entry wherever it now is, so members moving between reads
+-- don't make the next page skip or repeat the ones around them. If the
+-- entry itself has moved or left, the page starts where it would be.
+--
+-- KEYS[1] = the sorted set (e.g. "lb:scores")
+-- KEYS[2] = the metadata hash (e.g. "lb|meta:scores")
+-- ARGV[1] = "1" if higher scores rank first, "0" if lower ones do
+-- ARGV[2] = how many entries to read
+-- ARGV[3] = the cursor's stored score, or "" for the first page
+-- ARGV[4] = the cursor's member
+--
+-- Returns: { first position, { member, score, ... }, { metadata JSON
+--            or false, ... }, members on the board }
+
+local desc = ARGV[1] == '1'
+local limit = tonumber(ARGV[2])
+local score, member = ARGV[3], ARGV[4]
+
+-- Redis orders equal scores by member bytes; Lua's string comparison
+-- may follow the locale instead.
+local function bytes_before(a, b)
+    for i = 1, math.min(#a, #b) do
+        local x, y = a:byte(i), b:byte(i)
+        if x ~= y then
+            return x < y
+        end
+    end
+    return #a < #b
+end
+
+local start = 0
+if score ~= '' then
+    local current = redis.call('ZSCORE', KEYS[1], member)
+    if current and tonumber(current) == tonumber(score) then
+        if desc then
+            start = redis.call('ZREVRANK', KEYS[1], member) + 1
+        else
+            start = redis.call('ZRANK', KEYS[1], member) + 1
+        end
+    else
+        -- Everything with a better score, then those tied with the
+        -- cursor that come before it: after it in member order on
+        -- high-to-low boards, before it on low-to-high ones. The ties
+        -- sit in member order, so halve them rather than read them all.
+        local first = redis.call('ZCOUNT', KEYS[1], '-inf', '(' .. score)
+        local tied = redis.call('ZCOUNT', KEYS[1], score, score)
+        local lo, hi = 0, tied
+        while lo < hi do
+            local mid = math.floor((lo + hi) / 2)
+            local at = redis.call('ZRANGE', KEYS[1], first + mid, first + mid)[1]
+            if bytes_before(at, member) then
+                lo = mid + 1
+            else
+                hi = mid
+            end
+        end
+        if desc then
+            start = redis.call('ZCARD', KEYS[1]) - first - lo
+        else
+            start = first + lo
+        end
+    end
+end
+
+local raw, metas = read_run(KEYS[1], KEYS[2], desc, start, start + limit - 1)
+return { start, raw, metas, redis.call('ZCARD', KEYS[1]) }
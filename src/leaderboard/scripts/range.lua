@@ -0,0 +1,31 @@
+-- Leaderboard score range (read-only)
+--
+-- Reads the members with scores in a range, low to high, and the
+-- position of the best of them. The positions of the rest follow from
+-- it, since the range is a run of the board.
+--
+-- KEYS[1] = the sorted set (e.g. "lb:scores")
+-- KEYS[2] = the metadata hash (e.g. "lb|meta:scores")
+-- ARGV[1] = "1" if higher scores rank first, "0" if lower ones do
+-- ARGV[2] = lowest score, as a ZRANGEBYSCORE bound (e.g. "100", "(100")
+-- ARGV[3] = highest score, likewise
+-- ARGV[4] = how many matches to skip, from the low end
+-- ARGV[5] = how many to read, or -1 for all
+--
+-- Returns: { position of the best entry, { member, score, ... },
+--            { metadata JSON or false, ... } } — or {} when none match
+
+local desc = ARGV[1] == '1'
+local raw = redis.call('ZRANGEBYSCORE', KEYS[1], ARGV[2], ARGV[3],
+    'WITHSCORES', 'LIMIT', ARGV[4], ARGV[5])
+if #raw == 0 then
+    return {}
+end
+
+local position
+if desc then
+    position = redis.call('ZREVRANK', KEYS[1], raw[#raw - 1])
+else
+    position = redis.call('ZRANK', KEYS[1], raw[1])
+end
+return { position, raw, read_metadata(KEYS[2], raw) }
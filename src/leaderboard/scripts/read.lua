@@ -0,0 +1,31 @@
+-- Leaderboard reads (shared prelude)
+--
+-- Prepended to every script that reads entries off a board. Each
+-- member's metadata is JSON in the metadata hash, false where there's
+-- none.
+
+-- The metadata of each member in `raw`, a flat
+-- { member, score, member, score, ... } reply, in the same order.
+local function read_metadata(meta_key, raw)
+    if #raw == 0 then
+        return {}
+    end
+    local members = {}
+    for i = 1, #raw, 2 do
+        members[#members + 1] = raw[i]
+    end
+    return redis.call('HMGET', meta_key, unpack(members))
+end
+
+-- Positions start to stop of the board, in rank order.
+--
+-- Returns: { member, score, ... }, { metadata, ... }
+local function read_run(key, meta_key, desc, start, stop)
+    local raw
+    if desc then
+        raw = redis.call('ZREVRANGE', key, start, stop, 'WITHSCORES')
+    else
+        raw = redis.call('ZRANGE', key, start, stop, 'WITHSCORES')
+    end
+    return raw, read_metadata(meta_key, raw)
+end
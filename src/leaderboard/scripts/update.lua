@@ -0,0 +1,184 @@
+-- Leaderboard update (atomic)
+--
+-- Applies one member's score change to the all-time board and to the
+-- current board of every period at once, so they never disagree. Each
+-- period board expires a while after its period ends.
+--
+-- With a tie-breaker, a stored score is the member's integer score plus
+-- a fraction of at most 0.5 that orders equal scores by when they were
+-- reached. Reading the old score back means flooring it, and a score
+-- that doesn't change keeps the fraction it was first reached with.
+--
+-- For dense ranking, each board also keeps the set of its distinct
+-- scores (each score is both member and score). A score leaves it when
+-- the last member holding it does.
+--
+-- Member metadata lives in one hash for all boards. "set" may replace
+-- the member's; "rem" deletes it, but only once the member is on none
+-- of the boards sharing it — past period boards included.
+--
+-- Under the "gt" or "lt" policy, "set" only replaces a score that it
+-- beats — like ZADD GT/LT, which this stands in for on servers older
+-- than 6.2 — judged on each board separately.
+--
+-- KEYS[1]    = the metadata hash (e.g. "lb|meta:scores")
+-- KEYS[2]    = the all-time sorted set (e.g. "lb:scores")
+-- KEYS[3]    = its distinct score set (e.g. "lb|distinct:scores")
+-- KEYS[2i+2] = the current board of period i (e.g. "lb:scores:weekly:2026-10-19"),
+--              one per expiry in ARGV
+-- KEYS[2i+3] = its distinct score set
+-- KEYS[...]  = after those, "rem" only: every board sharing the metadata
+-- ARGV[1]   = "incr" to add to the member's score, "set" to replace it,
+--             "rem" to remove the member
+-- ARGV[2]   = member
+-- ARGV[3]   = amount / score ("" for "rem")
+-- ARGV[4]   = tie-break fraction for a score reached now, or "" for none
+-- ARGV[5]   = ranking mode: "ordinal", "standard", or "dense" to keep
+--             the distinct score set
+-- ARGV[6]   = "1" if higher scores rank first, "0" if lower ones do
+-- ARGV[7]   = policy for "set": "always", "gt" or "lt"
+-- ARGV[8]   = the member's new metadata as JSON, or "" to leave it
+-- ARGV[8+i] = epoch ms at which KEYS[2i+2] (and its distinct set) expires
+--
+-- Returns: { score, previous score, previous rank, rank } on the all-time
+--          board, each false when the member isn't (or wasn't) on it
+
+local mode = ARGV[1]
+local member, value = ARGV[2], ARGV[3]
+local fraction = tonumber(ARGV[4])
+local ranking = ARGV[5]
+local distinct = ranking == 'dense'
+local desc = ARGV[6] == '1'
+local policy = ARGV[7]
+local meta = ARGV[8]
+
+-- %.17g keeps every digit of a score; tostring would round it.
+local function format(score)
+    return string.format('%.17g', score)
+end
+
+-- Drop `score` from the distinct set once no member of `key` holds it.
+local function forget(key, distinct_key, score)
+    local upper = format(score)
+    if fraction ~= nil then
+        upper = '(' .. format(score + 1)
+    end
+    if redis.call('ZCOUNT', key, format(score), upper) == 0 then
+        redis.call('ZREM', distinct_key, format(score))
+    end
+end
+
+-- The member's score on `key`, minus any tie-break fraction, or nil.
+local function read(key)
+    local score = tonumber(redis.call('ZSCORE', key, member))
+    if score ~= nil and fraction ~= nil then
+        score = math.floor(score)
+    end
+    return score
+end
+
+-- The member's rank on `key` with `score`, numbered by the ranking
+-- mode. Counting what's ahead mirrors the client's aheadOf.
+local function rank(key, distinct_key, score)
+    if ranking == 'ordinal' then
+        if desc then
+            return redis.call('ZREVRANK', key, member)
+        end
+        return redis.call('ZRANK', key, member)
+    end
+    if distinct then
+        key = distinct_key
+    end
+    if not desc then
+        return redis.call('ZCOUNT', key, '-inf', '(' .. format(score))
+    end
+    -- On the board, a tie-broken score s is stored as up to s + 0.5.
+    if fraction ~= nil and not distinct then
+        return redis.call('ZCOUNT', key, format(score + 1), '+inf')
+    end
+    return redis.call('ZCOUNT', key, '(' .. format(score), '+inf')
+end
+
+-- Whether a board holding `old` keeps it rather than take `score`.
+local function keeps(old, score)
+    if old == nil then
+        return false
+    elseif policy == 'gt' then
+        return score <= old
+    elseif policy == 'lt' then
+        return score >= old
+    end
+    return score == old
+end
+
+-- Apply the change to one board. Returns the member's score there
+-- afterwards, or nil once removed.
+local function apply(key, distinct_key)
+    local old = read(key)
+
+    if mode == 'rem' then
+        if old ~= nil then
+            redis.call('ZREM', key, member)
+            if distinct then
+                forget(key, distinct_key, old)
+            end
+        end
+        return nil
+    end
+
+    local score = tonumber(value)
+    if mode == 'incr' then
+        score = (old or 0) + score
+    end
+    if keeps(old, score) then
+        return old
+    end
+
+    redis.call('ZADD', key, format(score + (fraction or 0)), member)
+    if distinct then
+        if old ~= nil then
+            forget(key, distinct_key, old)
+        end
+        redis.call('ZADD', distinct_key, format(score), format(score))
+    end
+    return score
+end
+
+if meta ~= '' then
+    redis.call('HSET', KEYS[1], member, meta)
+end
+
+local previous = read(KEYS[2])
+local previous_rank = false
+if previous ~= nil then
+    previous_rank = rank(KEYS[2], KEYS[3], previous)
+end
+
+local score = apply(KEYS[2], KEYS[3])
+local periods = #ARGV - 8
+for i = 1, periods do
+    local key, distinct_key = KEYS[2 * i + 2], KEYS[2 * i + 3]
+    apply(key, distinct_key)
+    redis.call('PEXPIREAT', key, ARGV[8 + i])
+    if distinct then
+        redis.call('PEXPIREAT', distinct_key, ARGV[8 + i])
+    end
+end
+
+if mode == 'rem' then
+    local held = false
+    for i = 2 * periods + 4, #KEYS do
+        if redis.call('ZSCORE', KEYS[i], member) then
+            held = true
+            break
+        end
+    end
+    if not held then
+        redis.call('HDEL', KEYS[1], member)
+    end
+end
+
+if score == nil then
+    return { false, previous and format(previous) or false, previous_rank, false }
+end
+return { format(score), previous and format(previous) or false, previous_rank, rank(KEYS[2], KEYS[3], score) }
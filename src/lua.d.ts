@@ -0,0 +1,8 @@
+/**
+ * `.lua` files import as their source text. tsup embeds them with its
+ * text loader, and vitest with the plugin in vitest.config.ts.
+ */
+declare module "*.lua" {
+	const source: string;
+	export default source;
+}
@@ -0,0 +1,161 @@
+import { randomBytes } from "node:crypto";
+import type { Redis } from "ioredis";
+import { defineScript, evalScript } from "../utils/script.js";
+import type { Clock } from "./clock.js";
+import type {
+	AnalyticsOptions,
+	KeyUsage,
+	RateLimitResult,
+	TopKey,
+	UsageRange,
+} from "./index.js";
+import recordLua from "./scripts/analytics-record.lua";
+import topLua from "./scripts/analytics-top.lua";
+
+const RECORD_SCRIPT = defineScript(recordLua);
+const TOP_SCRIPT = defineScript(topLua);
+
+/** The most buckets a query may read, so its cost stays bounded. */
+const MAX_BUCKETS = 10_000;
+
+/**
+ * Internal helper behind `RateLimiter`'s analytics: counts allowed and
+ * denied calls per key in time buckets, and queries them.
+ */
+export interface Analytics {
+	/**
+	 * Count a decision. Best effort: it doesn't wait for Redis, and a
+	 * failure to record is ignored rather than failing the call.
+	 */
+	record(key: string, result: RateLimitResult): void;
+	usage(key: string, range: UsageRange): Promise<KeyUsage>;
+	topDenied(range: UsageRange, count: number): Promise<TopKey[]>;
+}
+
+/**
+ * `prefix` is the limiter's parameter namespace ("rl|"), not the one
+ * its keys live in, so no key can land on a bucket.
+ */
+export function createAnalytics(
+	redis: Redis,
+	clock: Clock,
+	prefix: string,
+	options: AnalyticsOptions,
+): Analytics {
+	const bucketSec = options.bucket ?? 60;
+	const retentionSec = options.retention ?? 86_400;
+	if (!Number.isInteger(bucketSec) || bucketSec < 1) {
+		throw new RangeError(
+			`analytics bucket must be a whole number of seconds, got ${bucketSec}`,
+		);
+	}
+	// The default range covers every retained bucket, plus the current
+	// one and the one just expiring.
+	if (Math.ceil(retentionSec / bucketSec) + 2 > MAX_BUCKETS) {
+		throw new RangeError(
+			`analytics retention spans more than ${MAX_BUCKETS} buckets; use bigger buckets`,
+		);
+	}
+	const bucketMs = bucketSec * 1000;
+	const retentionMs = retentionSec * 1000;
+	const base = `${prefix}analytics`;
+	const bucketKey = (outcome: "allowed" | "denied", startMs: number) =>
+		`${base}:${outcome}:${startMs / 1000}`;
+
+	// Records still on their way to Redis. Queries wait for them, so a
+	// process always sees its own decisions counted.
+	const pending = new Set<Promise<void>>();
+
+	/**
+	 * The start (epoch ms) of every bucket overlapping the range — none
+	 * if it ends before it starts. By default, everything still retained
+	 * up to now.
+	 */
+	async function bucketStarts(range: UsageRange): Promise<number[]> {
+		const to = range.to ?? (await clock.now());
+		const from = range.from ?? to - retentionMs - bucketMs;
+		const first = from - (from % bucketMs);
+		const count = Math.floor((to - first) / bucketMs) + 1;
+		if (count > MAX_BUCKETS) {
+			throw new RangeError(
+				`range spans ${count} analytics buckets, more than the ${MAX_BUCKETS} a query may read`,
+			);
+		}
+		const starts: number[] = [];
+		for (let start = first; start <= to; start += bucketMs) {
+			starts.push(start);
+		}
+		await Promise.all(pending);
+		return starts;
+	}
+
+	return {
+		record(key, result) {
+			// The bucket's key depends on the time, and has to be known
+			// before the script runs.
+			const write = clock
+				.now()
+				.then((now) => {
+					const nowMs = Math.floor(now);
+					const startMs = nowMs - (nowMs % bucketMs);
+					return evalScript(
+						redis,
+						RECORD_SCRIPT,
+						1,
+						bucketKey(result.allowed ? "allowed" : "denied", startMs),
+						key,
+						(startMs + bucketMs + retentionMs - nowMs).toString(),
+					);
+				})
+				.then(
+					() => {},
+					() => {
+						// Analytics must never break rate limiting.
+					},
+				)
+				.finally(() => pending.delete(write));
+			pending.add(write);
+		},
+
+		async usage(key, range) {
+			const starts = await bucketStarts(range);
+			const pipeline = redis.pipeline();
+			for (const start of starts) {
+				pipeline.zscore(bucketKey("allowed", start), key);
+				pipeline.zscore(bucketKey("denied", start), key);
+			}
+			const replies = (await pipeline.exec()) ?? [];
+
+			const buckets = starts.map((start, i) => ({
+				start,
+				allowed: Number(replies[i * 2][1] ?? 0),
+				denied: Number(replies[i * 2 + 1][1] ?? 0),
+			}));
+			return {
+				allowed: buckets.reduce((sum, b) => sum + b.allowed, 0),
+				denied: buckets.reduce((sum, b) => sum + b.denied, 0),
+				buckets,
+			};
+		},
+
+		async topDenied(range, count) {
+			const starts = await bucketStarts(range);
+			if (starts.length === 0) return [];
+			// Returns [key, count, key, count, ...]
+			const reply = (await evalScript(
+				redis,
+				TOP_SCRIPT,
+				starts.length + 1,
+				`${base}:top:${randomBytes(9).toString("base64url")}`,
+				...starts.map((start) => bucketKey("denied", start)),
+				count.toString(),
+			)) as string[];
+
+			const top: TopKey[] = [];
+			for (let i = 0; i < reply.length; i += 2) {
+				top.push({ key: reply[i], denied: Number(reply[i + 1]) });
+			}
+			return top;
+		},
+	};
+}
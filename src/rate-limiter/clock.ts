@@ -0,0 +1,36 @@
+import type { Redis } from "ioredis";
+
+/** Where the strategies read the current time from. See `clock` in the config. */
+export type ClockOption = "redis" | "local" | (() => number);
+
+/**
+ * Internal handle the strategies use to get "now" into their scripts.
+ */
+export interface Clock {
+	/**
+	 * The timestamp argument for a script, in epoch ms.
+	 * Empty string means "read Redis TIME inside the script".
+	 */
+	scriptArg(): string;
+	/** The current time in epoch ms, for work done outside a script. */
+	now(): Promise<number>;
+}
+
+export function createClock(redis: Redis, option: ClockOption): Clock {
+	if (option === "redis") {
+		return {
+			scriptArg: () => "",
+			async now() {
+				// TIME returns [seconds, microseconds]
+				const [sec, usec] = await redis.time();
+				return Number(sec) * 1000 + Math.floor(Number(usec) / 1000);
+			},
+		};
+	}
+
+	const read = option === "local" ? Date.now : option;
+	return {
+		scriptArg: () => read().toString(),
+		now: async () => read(),
+	};
+}
@@ -0,0 +1,186 @@
+import { randomUUID } from "node:crypto";
+import type { Redis } from "ioredis";
+import { prefixKey } from "../utils/key.js";
+import { defineScript, evalScript } from "../utils/script.js";
+import { type Clock, type ClockOption, createClock } from "./clock.js";
+import clockLua from "./scripts/clock.lua";
+import acquireLua from "./scripts/concurrency-acquire.lua";
+import extendLua from "./scripts/concurrency-extend.lua";
+
+const ACQUIRE_SCRIPT = defineScript(clockLua, acquireLua);
+const EXTEND_SCRIPT = defineScript(clockLua, extendLua);
+
+// --- Configuration ---
+
+export interface ConcurrencyLimiterConfig {
+	/** An ioredis client instance. You manage the connection lifecycle. */
+	redis: Redis;
+	/** Maximum number of leases held at once, per key. */
+	limit: number;
+	/**
+	 * Seconds a lease lasts unless it's released or extended. Bounds how
+	 * long a crashed holder keeps its slot. Default: 60
+	 */
+	leaseTtl?: number;
+	/** Key prefix for all concurrency limiter keys. Default: "cl" */
+	prefix?: string;
+	/** Where "now" comes from. Default: "redis" (see `RateLimiter`) */
+	clock?: ClockOption;
+}
+
+// --- Result types ---
+
+/** A held slot. Release it when the work is done. */
+export interface Lease {
+	/** Unique ID of this lease within its key's set. */
+	readonly id: string;
+	/** Epoch ms at which the lease expires unless extended. */
+	readonly expiresAt: number;
+	/**
+	 * Give the slot back. Resolves `false` if the lease was no longer
+	 * held — it expired and was cleaned up, or the key was reset.
+	 */
+	release(): Promise<boolean>;
+	/**
+	 * Push the expiry to `ttl` seconds from now (default: the limiter's
+	 * `leaseTtl`). Resolves `false` if the lease had already expired —
+	 * it's lost, and the work should stop.
+	 */
+	extend(ttl?: number): Promise<boolean>;
+}
+
+export interface ConcurrencyResult {
+	/** Whether a slot was (or, for `peek`, would be) available. */
+	allowed: boolean;
+	/** Free slots left after this call. */
+	remaining: number;
+	/** The configured maximum number of leases. */
+	limit: number;
+	/**
+	 * Seconds until the oldest lease expires (0 when allowed). An upper
+	 * bound: holders usually release before their lease runs out.
+	 */
+	retryAfter: number;
+	/** The lease, when `acquire` got a slot. */
+	lease?: Lease;
+}
+
+// --- Main class ---
+
+/**
+ * A distributed semaphore: caps how many holders may work on a key at
+ * once, e.g. at most 5 concurrent report generations per tenant.
+ *
+ * Each slot is a lease with an expiry, so a holder that crashes without
+ * releasing frees its slot once the lease runs out.
+ *
+ * @example
+ * ```ts
+ * const reports = new ConcurrencyLimiter({ redis, limit: 5, leaseTtl: 30 });
+ *
+ * const { lease } = await reports.acquire("tenant:7");
+ * if (!lease) {
+ *   return; // reject — all 5 slots are busy
+ * }
+ * try {
+ *   await generateReport();
+ * } finally {
+ *   await lease.release();
+ * }
+ * ```
+ */
+export class ConcurrencyLimiter {
+	private redis: Redis;
+	private limit: number;
+	private leaseTtlMs: number;
+	private prefix: string;
+	private clock: Clock;
+
+	constructor(config: ConcurrencyLimiterConfig) {
+		this.redis = config.redis;
+		this.limit = config.limit;
+		this.leaseTtlMs = (config.leaseTtl ?? 60) * 1000;
+		this.prefix = config.prefix ?? "cl";
+		this.clock = createClock(config.redis, config.clock ?? "redis");
+	}
+
+	/**
+	 * Take a slot if one is free. The result carries the `lease` when
+	 * `allowed`; nothing is taken otherwise.
+	 */
+	async acquire(key: string): Promise<ConcurrencyResult> {
+		const id = randomUUID();
+		const [result, expiresAt] = await this.run(key, id, true);
+		if (!result.allowed) return result;
+		return { ...result, lease: this.createLease(key, id, expiresAt) };
+	}
+
+	/** Check whether a slot is free without taking it. */
+	async peek(key: string): Promise<ConcurrencyResult> {
+		const [result] = await this.run(key, "", false);
+		return result;
+	}
+
+	/** Drop every lease for a key. Their holders' `extend` calls will fail. */
+	async reset(key: string): Promise<void> {
+		await this.redis.del(prefixKey(this.prefix, key));
+	}
+
+	private async run(
+		key: string,
+		id: string,
+		acquire: boolean,
+	): Promise<[ConcurrencyResult, number]> {
+		// Returns [allowed (0/1), remaining, expiresAt, retryMs]
+		const [allowed, remaining, expiresAt, retryMs] = (await evalScript(
+			this.redis,
+			ACQUIRE_SCRIPT,
+			1,
+			prefixKey(this.prefix, key),
+			this.clock.scriptArg(),
+			this.limit.toString(),
+			id,
+			this.leaseTtlMs.toString(),
+			acquire ? "1" : "0",
+		)) as [number, number, number, number];
+
+		const result = {
+			allowed: allowed === 1,
+			remaining,
+			limit: this.limit,
+			retryAfter: retryMs / 1000,
+		};
+		return [result, expiresAt];
+	}
+
+	private createLease(key: string, id: string, expiresAt: number): Lease {
+		const setKey = prefixKey(this.prefix, key);
+		const { redis, clock } = this;
+		const defaultTtlMs = this.leaseTtlMs;
+
+		const lease = {
+			id,
+			expiresAt,
+			async release() {
+				// ZREM reports whether the lease was still in the set.
+				return (await redis.zrem(setKey, id)) === 1;
+			},
+			async extend(ttl?: number) {
+				const ttlMs = ttl === undefined ? defaultTtlMs : ttl * 1000;
+				const extended = (await evalScript(
+					redis,
+					EXTEND_SCRIPT,
+					1,
+					setKey,
+					clock.scriptArg(),
+					id,
+					ttlMs.toString(),
+				)) as number;
+				if (extended === 0) return false;
+				lease.expiresAt = extended;
+				return true;
+			},
+		};
+		return lease;
+	}
+}
@@ -0,0 +1,32 @@
+/**
+ * Thrown when a Redis call takes longer than the limiter's `timeout`.
+ * Passed to `onRedisError` like any other Redis failure.
+ */
+export class RedisTimeoutError extends Error {
+	constructor(readonly timeout: number) {
+		super(`Redis call timed out after ${timeout}ms`);
+		this.name = "RedisTimeoutError";
+	}
+}
+
+/**
+ * Thrown by `acquire` when the call can't be allowed within `maxWait`.
+ * Thrown as soon as the wait is known to overrun, not when it does.
+ */
+export class AcquireTimeoutError extends Error {
+	constructor(readonly maxWait: number) {
+		super(`Could not acquire within ${maxWait}ms`);
+		this.name = "AcquireTimeoutError";
+	}
+}
+
+/**
+ * Thrown by `acquire` when its `signal` aborts. The signal's reason
+ * is the error's `cause`.
+ */
+export class AcquireAbortedError extends Error {
+	constructor(reason: unknown) {
+		super("Acquire was aborted", { cause: reason });
+		this.name = "AcquireAbortedError";
+	}
+}
@@ -0,0 +1,72 @@
+import type { RateLimitResult, RateLimitRule } from "./index.js";
+import { ruleLimit } from "./strategies/params.js";
+
+/**
+ * The window, in seconds, a rule's limit applies to: the window itself
+ * for window-based strategies, or the time a drained bucket takes to
+ * fill back up for token-bucket and gcra.
+ */
+function ruleWindow(rule: RateLimitRule): number {
+	switch (rule.strategy) {
+		case "token-bucket":
+			if (rule.refillInterval !== undefined) {
+				return Math.ceil(rule.capacity / rule.refillRate) * rule.refillInterval;
+			}
+			return rule.capacity / rule.refillRate;
+		case "gcra":
+			return rule.emissionInterval * (rule.burst ?? 1);
+		default:
+			return rule.window;
+	}
+}
+
+/**
+ * Describe rules as a `RateLimit-Policy` value: `limit;w=window` per
+ * rule, comma-separated.
+ *
+ * @example
+ * formatPolicy([{ strategy: "sliding-window", limit: 100, window: 60 }])
+ * // => "100;w=60"
+ */
+export function formatPolicy(rules: RateLimitRule[]): string {
+	return rules
+		.map((rule) => `${ruleLimit(rule)};w=${Math.ceil(ruleWindow(rule))}`)
+		.join(", ");
+}
+
+/**
+ * Render a result as HTTP rate limit headers, following the IETF
+ * RateLimit header fields draft:
+ *
+ * - `RateLimit-Limit` / `RateLimit-Remaining`
+ * - `RateLimit-Reset` — whole seconds until `resetAt`
+ * - `RateLimit-Policy` — only if `policy` is given (see `RateLimiter.policy`)
+ * - `Retry-After` — whole seconds, only when the request was rejected
+ *
+ * @example
+ * ```ts
+ * const result = await limiter.limit(key);
+ * for (const [name, value] of Object.entries(rateLimitHeaders(result, limiter.policy))) {
+ *   res.setHeader(name, value);
+ * }
+ * ```
+ */
+export function rateLimitHeaders(
+	result: RateLimitResult,
+	policy?: string,
+): Record<string, string> {
+	const headers: Record<string, string> = {
+		"RateLimit-Limit": `${result.limit}`,
+		"RateLimit-Remaining": `${result.remaining}`,
+		"RateLimit-Reset": `${Math.max(0, Math.ceil((result.resetAt - Date.now()) / 1000))}`,
+	};
+	if (policy !== undefined) {
+		headers["RateLimit-Policy"] = policy;
+	}
+	if (!result.allowed) {
+		// Round up: retrying a fraction of a second early would just
+		// be rejected again.
+		headers["Retry-After"] = `${Math.ceil(result.retryAfter)}`;
+	}
+	return headers;
+}
@@ -1,9 +1,25 @@
 import type { Redis } from "ioredis";
 import { prefixKey } from "../utils/key.js";
+import { LruCache } from "../utils/lru.js";
+import { sleep, withSignal, withTimeout } from "../utils/timeout.js";
+import { type Analytics, createAnalytics } from "./analytics.js";
+import { type ClockOption, createClock } from "./clock.js";
+import {
+	AcquireAbortedError,
+	AcquireTimeoutError,
+	RedisTimeoutError,
+} from "./errors.js";
+import { formatPolicy } from "./headers.js";
+import { type Penalty, createPenalty } from "./penalty.js";
+import { createBatch, createComposite } from "./strategies/composite.js";
 import { createFixedWindow } from "./strategies/fixed-window.js";
+import { createGcra } from "./strategies/gcra.js";
+import { ruleLimit } from "./strategies/params.js";
+import { decodeReceipt } from "./strategies/receipt.js";
+import { createSlidingWindowCounter } from "./strategies/sliding-window-counter.js";
 import { createSlidingWindow } from "./strategies/sliding-window.js";
 import { createTokenBucket } from "./strategies/token-bucket.js";
-import type { RateLimitStrategy } from "./strategies/types.js";
+import type { RateLimitStrategy, StrategyKeys } from "./strategies/types.js";
 
 // --- Configuration types (discriminated union by strategy) ---
 
@@ -12,9 +28,80 @@ interface RateLimiterBase {
 	redis: Redis;
 	/** Key prefix for all rate limiter keys. Default: "rl" */
 	prefix?: string;
+	/**
+	 * What `limit` and `peek` return when Redis fails or times out.
+	 * - "allow": fail open — let the request through
+	 * - "deny": fail closed — reject the request
+	 * - a function: build the result yourself from the error and key
+	 * Results produced this way have `fallback: true`.
+	 * Default: the error is thrown.
+	 */
+	onRedisError?: "allow" | "deny" | RedisErrorHandler;
+	/**
+	 * Time budget in ms for each call's Redis work. A call that takes
+	 * longer fails with a `RedisTimeoutError` (and goes through
+	 * `onRedisError`). Default: no timeout.
+	 */
+	timeout?: number;
+	/**
+	 * Remember rejected keys in process until their `retryAfter` passes,
+	 * and reject further calls for them without a Redis round trip.
+	 * `true` uses a cache of 1000 keys. Default: off
+	 */
+	denyCache?: boolean | { maxSize?: number };
+	/**
+	 * Where "now" comes from when deciding windows and refills.
+	 * - "redis": the Redis server's clock, read inside each script —
+	 *   app servers with drifting clocks still agree
+	 * - "local": this process's `Date.now()`
+	 * - a function returning epoch ms (e.g. a fake clock in tests)
+	 * Default: "redis"
+	 */
+	clock?: ClockOption;
+	/**
+	 * Ban keys that keep getting rejected, for longer each time.
+	 * Also enables `ban` and `unban`. Default: off
+	 */
+	penalty?: PenaltyPolicy;
+	/**
+	 * Count allowed and denied calls per key over time, for `usage` and
+	 * `topDenied`. `true` uses the defaults. Default: off
+	 */
+	analytics?: boolean | AnalyticsOptions;
+}
+
+export interface AnalyticsOptions {
+	/**
+	 * Bucket size in seconds: the resolution of `usage`. A whole
+	 * number. Default: 60
+	 */
+	bucket?: number;
+	/** Seconds a bucket is kept after it ends. Default: 86400 (a day) */
+	retention?: number;
 }
 
-interface FixedWindowConfig extends RateLimiterBase {
+export interface PenaltyPolicy {
+	/** Rejections that trigger a ban. Default: 5 */
+	threshold?: number;
+	/**
+	 * Seconds without a rejection after which a key's violations are
+	 * forgotten. A key's ban history is forgotten this long after its
+	 * last ban ends. Default: 600
+	 */
+	decay?: number;
+	/**
+	 * Ban durations in seconds, in escalation order. Once the list runs
+	 * out, the last duration repeats. Default: [60, 600, 3600]
+	 */
+	bans?: number[];
+}
+
+export type RedisErrorHandler = (
+	error: unknown,
+	key: string,
+) => RateLimitResult;
+
+interface FixedWindowConfig {
 	strategy: "fixed-window";
 	/** Maximum number of requests allowed per window. */
 	limit: number;
@@ -22,7 +109,7 @@ interface FixedWindowConfig extends RateLimiterBase {
 	window: number;
 }
 
-interface SlidingWindowConfig extends RateLimiterBase {
+interface SlidingWindowConfig {
 	strategy: "sliding-window";
 	/** Maximum number of requests allowed per window. */
 	limit: number;
@@ -30,18 +117,204 @@ interface SlidingWindowConfig extends RateLimiterBase {
 	window: number;
 }
 
-interface TokenBucketConfig extends RateLimiterBase {
+interface SlidingWindowCounterConfig {
+	strategy: "sliding-window-counter";
+	/** Maximum number of requests allowed per window. */
+	limit: number;
+	/** Window duration in seconds. */
+	window: number;
+}
+
+interface TokenBucketConfig {
 	strategy: "token-bucket";
 	/** Maximum number of tokens the bucket can hold. */
 	capacity: number;
-	/** Number of tokens added per second. */
+	/**
+	 * Number of tokens added per second — or, with `refillInterval`,
+	 * added at once every interval.
+	 */
 	refillRate: number;
+	/**
+	 * Refill in discrete steps: `refillRate` tokens at once every
+	 * `refillInterval` seconds, e.g. 100 tokens every 900 for "100 per
+	 * 15 minutes". Default: a continuous refill
+	 */
+	refillInterval?: number;
+	/**
+	 * Tokens a key's bucket starts with. A bucket that has sat full
+	 * long enough to expire starts over from here. Default: `capacity`
+	 */
+	initialTokens?: number;
 }
 
-export type RateLimiterConfig =
+interface GcraConfig {
+	strategy: "gcra";
+	/**
+	 * Seconds between requests at the sustained rate — the inverse of
+	 * the rate. 100 requests per minute is an emission interval of 0.6.
+	 */
+	emissionInterval: number;
+	/**
+	 * How many requests may arrive back to back before the steady rate
+	 * applies. Default: 1 (strict shaping, no bursts)
+	 */
+	burst?: number;
+}
+
+type StrategyConfig =
 	| FixedWindowConfig
 	| SlidingWindowConfig
-	| TokenBucketConfig;
+	| SlidingWindowCounterConfig
+	| TokenBucketConfig
+	| GcraConfig;
+
+/** One limit within a composite strategy — any single strategy's options. */
+export type RateLimitRule = StrategyConfig & {
+	/**
+	 * Identifies the rule in results and in its Redis key
+	 * (e.g. "rl:user:42:per-second"). Default: the rule's index.
+	 * Renaming or reordering unnamed rules starts them from scratch.
+	 */
+	name?: string;
+};
+
+interface CompositeConfig {
+	strategy: "composite";
+	/**
+	 * Every rule must allow a call for it to go through. Units are
+	 * consumed from all of them, or — if any rule rejects — from none.
+	 */
+	rules: RateLimitRule[];
+}
+
+export type RateLimiterConfig = RateLimiterBase &
+	(StrategyConfig | CompositeConfig);
+
+// --- Call options ---
+
+export interface LimitOptions {
+	/**
+	 * How many units this call consumes (or checks, for `peek`).
+	 * Use it to charge expensive operations more than cheap ones.
+	 * Must be a positive integer. Default: 1
+	 */
+	cost?: number;
+}
+
+export interface LimitManyOptions extends LimitOptions {
+	/**
+	 * Consume from every key or from none: if any key can't afford
+	 * `cost` (or is banned), nothing is consumed and every result is
+	 * rejected. Checked in a single atomic script, which doesn't use the
+	 * deny cache. Default: false — each key is limited on its own
+	 */
+	allOrNothing?: boolean;
+}
+
+export interface AcquireOptions extends LimitOptions {
+	/** Abort the wait — `acquire` rejects with an `AcquireAbortedError`. */
+	signal?: AbortSignal;
+	/**
+	 * The longest to wait, in ms, including time spent queued behind
+	 * other callers. `acquire` rejects with an `AcquireTimeoutError` as
+	 * soon as it knows the call can't be allowed in time.
+	 * Default: wait as long as it takes
+	 */
+	maxWait?: number;
+}
+
+export interface RefundOptions {
+	/**
+	 * How many units to give back. Must be a positive integer.
+	 * Default: everything the receipt's call consumed, or 1
+	 */
+	amount?: number;
+	/**
+	 * The `receipt` of the `limit` call being refunded. Without one, the
+	 * most recently consumed units are given back — for a sliding window,
+	 * whichever request came last.
+	 */
+	receipt?: string;
+}
+
+// --- Tiers and overrides ---
+
+/**
+ * Strategy parameters a tier or override can set, in the same units as
+ * the config. Only the limiter's own strategy's fields apply, e.g.
+ * `limit` and `window` for the window strategies.
+ */
+export interface LimitParams {
+	limit?: number;
+	window?: number;
+	capacity?: number;
+	refillRate?: number;
+	emissionInterval?: number;
+	burst?: number;
+}
+
+/**
+ * Per-key parameters. Fields set here win over the named tier's,
+ * which win over the limiter's configured values.
+ */
+export interface LimitOverride extends LimitParams {
+	/** A tier registered with `setTier`. */
+	tier?: string;
+}
+
+export interface OverrideOptions {
+	/**
+	 * Seconds until the override lapses and the key falls back to the
+	 * configured parameters. Default: never
+	 */
+	ttl?: number;
+}
+
+/** The parameter fields each strategy reads from tiers and overrides. */
+const PARAM_FIELDS: Record<StrategyConfig["strategy"], (keyof LimitParams)[]> =
+	{
+		"fixed-window": ["limit", "window"],
+		"sliding-window": ["limit", "window"],
+		"sliding-window-counter": ["limit", "window"],
+		"token-bucket": ["capacity", "refillRate"],
+		gcra: ["emissionInterval", "burst"],
+	};
+
+/**
+ * Parameters the scripts count or expire with, so they must be whole:
+ * EXPIRE takes whole seconds, and limits are counts of whole units.
+ */
+const INTEGER_PARAMS: (keyof LimitParams)[] = [
+	"limit",
+	"window",
+	"capacity",
+	"burst",
+];
+
+// --- Analytics ---
+
+/** A time range, in epoch ms. */
+export interface UsageRange {
+	/** Default: as far back as buckets are retained */
+	from?: number;
+	/** Default: now */
+	to?: number;
+}
+
+export interface KeyUsage {
+	/** Calls allowed over the whole range. */
+	allowed: number;
+	/** Calls denied over the whole range. */
+	denied: number;
+	/** The counts per bucket, oldest first. */
+	buckets: { start: number; allowed: number; denied: number }[];
+}
+
+export interface TopKey {
+	key: string;
+	/** Calls denied over the range. */
+	denied: number;
+}
 
 // --- Result type ---
 
@@ -50,17 +323,75 @@ export interface RateLimitResult {
 	allowed: boolean;
 	/** How many requests remain in the current window / tokens remaining. */
 	remaining: number;
-	/** The configured limit / capacity. */
+	/**
+	 * The limit / capacity in effect for this key: the configured one,
+	 * or its tier's or override's.
+	 */
 	limit: number;
-	/** Seconds until the next request would be allowed. 0 if currently allowed. */
+	/**
+	 * Seconds until this request would be allowed. 0 if currently allowed.
+	 * Exact to the millisecond, so it may be fractional (e.g. 0.25).
+	 */
 	retryAfter: number;
+	/**
+	 * Epoch ms at which the key is back to its full limit — the window
+	 * ends or empties, or the bucket is full again.
+	 */
+	resetAt: number;
+	/**
+	 * True if Redis failed and this result came from the
+	 * `onRedisError` policy instead.
+	 */
+	fallback?: boolean;
+	/**
+	 * True if the key is banned — by the penalty policy or by `ban`.
+	 * `retryAfter` and `resetAt` then count down to the ban's end.
+	 */
+	banned?: boolean;
+	/** Epoch ms at which the key's ban ends, when `banned`. */
+	bannedUntil?: number;
+	/**
+	 * Composite strategy only: the name of the binding rule — the one
+	 * that rejected the call, or the one with the least room left.
+	 */
+	rule?: string;
+	/**
+	 * Identifies what an allowed `limit` or `acquire` call consumed.
+	 * Opaque: pass it to `refund` to give those units back.
+	 */
+	receipt?: string;
+}
+
+/** Tokens taken ahead of time by `reserve`. */
+export interface Reservation {
+	/**
+	 * Whether the tokens were reserved. Nothing is taken when they
+	 * couldn't be: more than the bucket can hold, or a banned key.
+	 */
+	ok: boolean;
+	/**
+	 * Seconds to wait before acting on the reservation — 0 if the tokens
+	 * were there already. Infinity when not `ok`.
+	 */
+	delay: number;
+	/**
+	 * Epoch ms, by this process's clock, at which the reservation may be
+	 * acted on. Infinity when not `ok`.
+	 */
+	readyAt: number;
+	/**
+	 * Give the tokens back, e.g. when the work won't happen after all.
+	 * Does nothing once `readyAt` has passed: by then they count as used.
+	 */
+	cancel(): Promise<void>;
 }
 
 // --- Main class ---
 
 /**
  * A Redis-backed rate limiter supporting fixed-window, sliding-window,
- * and token-bucket strategies.
+ * sliding-window-counter, token-bucket, and gcra strategies, plus a
+ * composite strategy that enforces several of them at once.
  *
  * @example
  * ```ts
@@ -78,16 +409,85 @@ export interface RateLimitResult {
  * ```
  */
 export class RateLimiter {
+	/**
+	 * The configured limits as a `RateLimit-Policy` header value,
+	 * e.g. "100;w=60" (one entry per rule for the composite strategy).
+	 */
+	readonly policy: string;
+
+	private redis: Redis;
 	private strategy: RateLimitStrategy;
+	/** Checks several keys in one all-or-nothing script run. */
+	private batch: ReturnType<typeof createBatch>;
+	/** The fields tiers and overrides may set; empty for composite. */
+	private paramFields: (keyof LimitParams)[];
 	private prefix: string;
+	/**
+	 * Where tiers, overrides, penalty state and analytics live: beside
+	 * the keys' namespace rather than in it, so no key — not even one
+	 * named "tiers" or "ban:user:42" — can land on them. "rl" → "rl|".
+	 */
+	private paramsPrefix: string;
+	/** Hash of every tier's parameters, e.g. "pro:limit" → 1000. */
+	private tiersKey: string;
+	private onRedisError: RateLimiterConfig["onRedisError"];
+	private timeout: number | undefined;
+	/** The tightest configured limit, reported by fallback results. */
+	private configuredLimit: number;
+	private denied: LruCache<string, DeniedEntry> | undefined;
+	private penalty: Penalty | undefined;
+	private analytics: Analytics | undefined;
+	/** Per key, settles when the last `acquire` waiter is done. */
+	private queues = new Map<string, Promise<void>>();
 
 	constructor(config: RateLimiterConfig) {
+		this.redis = config.redis;
 		this.prefix = config.prefix ?? "rl";
+		this.paramsPrefix = `${this.prefix}|`;
+		this.tiersKey = `${this.paramsPrefix}tiers`;
+		this.onRedisError = config.onRedisError;
+		this.timeout = config.timeout;
+
+		const rules = config.strategy === "composite" ? config.rules : [config];
+		this.paramFields =
+			config.strategy === "composite" ? [] : PARAM_FIELDS[config.strategy];
+		this.policy = formatPolicy(rules);
+		this.configuredLimit = Math.min(...rules.map(ruleLimit));
+
+		if (config.denyCache) {
+			const maxSize =
+				config.denyCache === true ? 1000 : (config.denyCache.maxSize ?? 1000);
+			this.denied = new LruCache(maxSize);
+		}
 
+		const clock = createClock(config.redis, config.clock ?? "redis");
+		this.batch = createBatch(
+			config.redis,
+			clock,
+			rules,
+			config.strategy === "composite",
+		);
+		if (config.penalty) {
+			this.penalty = createPenalty(
+				config.redis,
+				clock,
+				this.paramsPrefix,
+				config.penalty,
+			);
+		}
+		if (config.analytics) {
+			this.analytics = createAnalytics(
+				config.redis,
+				clock,
+				this.paramsPrefix,
+				config.analytics === true ? {} : config.analytics,
+			);
+		}
 		switch (config.strategy) {
 			case "fixed-window":
 				this.strategy = createFixedWindow(
 					config.redis,
+					clock,
 					config.limit,
 					config.window,
 				);
@@ -95,6 +495,15 @@ export class RateLimiter {
 			case "sliding-window":
 				this.strategy = createSlidingWindow(
 					config.redis,
+					clock,
+					config.limit,
+					config.window,
+				);
+				break;
+			case "sliding-window-counter":
+				this.strategy = createSlidingWindowCounter(
+					config.redis,
+					clock,
 					config.limit,
 					config.window,
 				);
@@ -102,33 +511,627 @@ export class RateLimiter {
 			case "token-bucket":
 				this.strategy = createTokenBucket(
 					config.redis,
+					clock,
 					config.capacity,
 					config.refillRate,
+					config.initialTokens,
+					config.refillInterval,
 				);
 				break;
+			case "gcra":
+				this.strategy = createGcra(
+					config.redis,
+					clock,
+					config.emissionInterval,
+					config.burst ?? 1,
+				);
+				break;
+			case "composite":
+				this.strategy = createComposite(config.redis, clock, config.rules);
+				break;
 		}
 	}
 
 	/**
-	 * Check if a request is allowed and consume one unit.
+	 * Check if a request is allowed and consume `cost` units (default 1).
 	 * This is the primary method — call it on every incoming request.
+	 * A request whose cost exceeds what remains is rejected and
+	 * consumes nothing.
 	 */
-	async limit(key: string): Promise<RateLimitResult> {
-		return this.strategy.limit(prefixKey(this.prefix, key));
+	async limit(key: string, options?: LimitOptions): Promise<RateLimitResult> {
+		const result = await this.consume(key, resolveCost(options));
+		this.record(key, result);
+		return result;
 	}
 
 	/**
-	 * Check the current state without consuming a unit.
-	 * Useful for displaying remaining quota to users.
+	 * Check whether `cost` units (default 1) are available without
+	 * consuming them. Useful for displaying remaining quota to users.
 	 */
-	async peek(key: string): Promise<RateLimitResult> {
-		return this.strategy.peek(prefixKey(this.prefix, key));
+	async peek(key: string, options?: LimitOptions): Promise<RateLimitResult> {
+		const cost = resolveCost(options);
+		return this.guard(key, cost, () =>
+			this.strategy.peek(this.keys(key), cost),
+		);
+	}
+
+	/**
+	 * `limit` for several keys at once — say the user, their org and
+	 * their IP — in a single round trip. A penalty policy adds one more
+	 * after a rejection, to count violations against the keys that were
+	 * rejected. Results are keyed by key; duplicate keys are checked once.
+	 *
+	 * By default each key is limited on its own, exactly as by `limit`.
+	 * With `allOrNothing`, units are consumed from every key only if
+	 * every key allows the call.
+	 *
+	 * @example
+	 * ```ts
+	 * const results = await limiter.limitMany(
+	 *   ["user:42", "org:7", "ip:203.0.113.9"],
+	 *   { allOrNothing: true },
+	 * );
+	 * const allowed = [...results.values()].every((r) => r.allowed);
+	 * ```
+	 */
+	async limitMany(
+		keys: string[],
+		options?: LimitManyOptions,
+	): Promise<Map<string, RateLimitResult>> {
+		const cost = resolveCost(options);
+		const unique = [...new Set(keys)];
+		if (unique.length === 0) return new Map();
+
+		let results: RateLimitResult[];
+		if (options?.allOrNothing) {
+			try {
+				results = await this.withTimeout(this.limitAll(unique, cost));
+				unique.forEach((key, i) => this.record(key, results[i]));
+			} catch (err) {
+				if (this.onRedisError === undefined) throw err;
+				results = unique.map((key) => this.fallback(err, key));
+			}
+		} else {
+			// Issued together, the calls share a round trip: ioredis sends
+			// each command without waiting for the replies before it.
+			results = await Promise.all(
+				unique.map((key) => this.limit(key, { cost })),
+			);
+		}
+		return new Map(unique.map((key, i) => [key, results[i]]));
 	}
 
 	/**
-	 * Reset all rate limit state for a key.
+	 * `peek` for several keys at once, in a single round trip. Results
+	 * are keyed by key.
+	 */
+	async peekMany(
+		keys: string[],
+		options?: LimitOptions,
+	): Promise<Map<string, RateLimitResult>> {
+		const cost = resolveCost(options);
+		const unique = [...new Set(keys)];
+		const results = await Promise.all(
+			unique.map((key) => this.peek(key, { cost })),
+		);
+		return new Map(unique.map((key, i) => [key, results[i]]));
+	}
+
+	/**
+	 * Wait until `cost` units (default 1) can be consumed, then consume
+	 * them. For work that should wait its turn rather than be rejected,
+	 * such as calls to a third-party API.
+	 *
+	 * Instead of polling, each attempt sleeps for the `retryAfter` Redis
+	 * reports. Waiters for the same key in this process are served in
+	 * FIFO order: only the one at the front talks to Redis.
+	 *
+	 * @example
+	 * ```ts
+	 * await limiter.acquire("github", { maxWait: 10_000 });
+	 * await fetch("https://api.github.com/...");
+	 * ```
+	 */
+	async acquire(
+		key: string,
+		options: AcquireOptions = {},
+	): Promise<RateLimitResult> {
+		const cost = resolveCost(options);
+		const { signal, maxWait } = options;
+		const deadline =
+			maxWait === undefined ? Number.POSITIVE_INFINITY : Date.now() + maxWait;
+		const aborted = () => new AcquireAbortedError(signal?.reason);
+		const timedOut = () => new AcquireTimeoutError(maxWait ?? 0);
+
+		// Join the back of this key's queue. Our turn comes when everyone
+		// ahead has finished — whether they acquired, gave up or failed.
+		const ahead = this.queues.get(key) ?? Promise.resolve();
+		let done!: () => void;
+		const finished = new Promise<void>((resolve) => {
+			done = resolve;
+		});
+		const tail = ahead.then(() => finished);
+		this.queues.set(key, tail);
+
+		try {
+			let turn = withSignal(ahead, signal, aborted);
+			if (maxWait !== undefined) {
+				turn = withTimeout(turn, deadline - Date.now(), timedOut);
+			}
+			await turn;
+
+			for (;;) {
+				// Only the outcome counts for analytics, not every attempt —
+				// and waiting its turn isn't a violation.
+				const result = await this.consume(key, cost, false);
+				if (result.allowed) {
+					this.record(key, result);
+					return result;
+				}
+				if (cost > result.limit) {
+					throw new RangeError(
+						`cost ${cost} exceeds the limit of ${result.limit} and can never be acquired`,
+					);
+				}
+
+				const delay = result.retryAfter * 1000;
+				if (Date.now() + delay > deadline) throw timedOut();
+				await sleep(delay, signal, aborted);
+			}
+		} finally {
+			done();
+			if (this.queues.get(key) === tail) this.queues.delete(key);
+		}
+	}
+
+	/**
+	 * Token bucket only: take `tokens` (default 1) now, even before the
+	 * bucket holds them, and learn when they will be there — like
+	 * `Reserve` in Go's golang.org/x/time/rate. The bucket goes into
+	 * debt, so later calls wait for the reserved tokens to refill
+	 * before their own. Act once `delay` has passed, or `cancel`.
+	 * Subject to `timeout`, but errors are always thrown.
+	 *
+	 * @example
+	 * ```ts
+	 * const reservation = await limiter.reserve("export", 5);
+	 * if (reservation.ok) {
+	 *   await setTimeout(reservation.delay * 1000); // node:timers/promises
+	 *   await runExport();
+	 * }
+	 * ```
+	 */
+	async reserve(key: string, tokens = 1): Promise<Reservation> {
+		if (!Number.isInteger(tokens) || tokens < 1) {
+			throw new RangeError(`tokens must be a positive integer, got ${tokens}`);
+		}
+		const { reserve } = this.strategy;
+		if (!reserve) {
+			throw new Error("reserve needs the token-bucket strategy");
+		}
+
+		const result = await this.withTimeout(reserve(this.keys(key), tokens));
+		this.record(key, result);
+		if (!result.allowed) {
+			return {
+				ok: false,
+				delay: Number.POSITIVE_INFINITY,
+				readyAt: Number.POSITIVE_INFINITY,
+				cancel: async () => {},
+			};
+		}
+
+		const readyAt = Date.now() + result.retryAfter * 1000;
+		let cancelled = false;
+		return {
+			ok: true,
+			delay: result.retryAfter,
+			readyAt,
+			cancel: async () => {
+				if (cancelled || Date.now() >= readyAt) return;
+				cancelled = true;
+				await this.refund(key, { amount: tokens });
+			},
+		};
+	}
+
+	/**
+	 * Reset all rate limit state for a key, including any cached rejection
+	 * and, with a penalty policy, its ban and violation history.
+	 * Subject to `timeout`, but errors are always thrown.
 	 */
 	async reset(key: string): Promise<void> {
-		return this.strategy.reset(prefixKey(this.prefix, key));
+		this.denied?.delete(key);
+		await this.withTimeout(
+			Promise.all([
+				this.strategy.reset(this.keys(key)),
+				this.penalty?.reset(key),
+			]),
+		);
+	}
+
+	/**
+	 * Give back units a `limit` call consumed, e.g. when the work it
+	 * guarded failed before doing anything. Refund each receipt at most
+	 * once: refunds aren't tracked, so a second one gives back units
+	 * that other calls consumed. Units whose state has already expired
+	 * are gone, and refunding them is a no-op.
+	 * Subject to `timeout`, but errors are always thrown.
+	 *
+	 * @example
+	 * ```ts
+	 * const result = await limiter.limit("user:42");
+	 * try {
+	 *   await callUpstream();
+	 * } catch (err) {
+	 *   await limiter.refund("user:42", { receipt: result.receipt });
+	 *   throw err;
+	 * }
+	 * ```
+	 */
+	async refund(key: string, options?: RefundOptions): Promise<void> {
+		const receipt =
+			options?.receipt === undefined
+				? undefined
+				: decodeReceipt(options.receipt);
+		const amount = options?.amount ?? receipt?.cost ?? 1;
+		if (!Number.isInteger(amount) || amount < 1) {
+			throw new RangeError(`amount must be a positive integer, got ${amount}`);
+		}
+		if (receipt && amount > receipt.cost) {
+			throw new RangeError(
+				`amount ${amount} exceeds the ${receipt.cost} unit(s) the receipt consumed`,
+			);
+		}
+		this.denied?.delete(key);
+		await this.withTimeout(
+			this.strategy.refund(this.keys(key), amount, receipt),
+		);
+	}
+
+	/**
+	 * Ban a key for `seconds`: `limit` and `peek` reject it with
+	 * `banned: true` until then. Replaces any ban already in place.
+	 * Needs a `penalty` policy.
+	 */
+	async ban(key: string, seconds: number): Promise<void> {
+		if (!Number.isFinite(seconds) || seconds <= 0) {
+			throw new RangeError(`seconds must be a positive number, got ${seconds}`);
+		}
+		await this.requirePenalty().ban(key, seconds);
+		this.denied?.delete(key);
+	}
+
+	/**
+	 * Lift a key's ban, whether placed by the penalty policy or by `ban`,
+	 * and forget its pending violations. Its ban history still counts
+	 * towards the next ban's length. Needs a `penalty` policy.
+	 */
+	async unban(key: string): Promise<void> {
+		await this.requirePenalty().unban(key);
+		this.denied?.delete(key);
+	}
+
+	/**
+	 * Register (or replace) a named tier, e.g. a pricing plan. Stored in
+	 * Redis, so every process sees it on its next call for keys on the
+	 * tier.
+	 *
+	 * @example
+	 * ```ts
+	 * await limiter.setTier("pro", { limit: 1000 });
+	 * await limiter.setOverride("customer:42", { tier: "pro" });
+	 * ```
+	 */
+	async setTier(name: string, params: LimitParams): Promise<void> {
+		const entries = this.paramEntries(params);
+		if (entries.length === 0) {
+			throw new RangeError("tier must set at least one parameter");
+		}
+
+		await this.redis
+			.multi()
+			.hdel(this.tiersKey, ...this.tierFields(name))
+			.hset(
+				this.tiersKey,
+				Object.fromEntries(
+					entries.map(([field, value]) => [`${name}:${field}`, value]),
+				),
+			)
+			.exec();
+	}
+
+	/**
+	 * Remove a tier. Keys assigned to it fall back to their override's
+	 * own fields, then the configured parameters.
+	 */
+	async deleteTier(name: string): Promise<void> {
+		await this.redis.hdel(this.tiersKey, ...this.tierFields(name));
+	}
+
+	/**
+	 * Assign a key to a tier and/or give it its own parameters, replacing
+	 * any previous override. Takes effect on the key's next call in
+	 * every process.
+	 *
+	 * @example
+	 * ```ts
+	 * // A temporary boost for one customer
+	 * await limiter.setOverride("customer:42", { limit: 5000 }, { ttl: 86400 });
+	 * ```
+	 */
+	async setOverride(
+		key: string,
+		override: LimitOverride,
+		options: OverrideOptions = {},
+	): Promise<void> {
+		const { tier, ...params } = override;
+		const fields: Record<string, string | number> = Object.fromEntries(
+			this.paramEntries(params),
+		);
+		if (tier !== undefined) fields.tier = tier;
+		if (Object.keys(fields).length === 0) {
+			throw new RangeError("override must set a tier or a parameter");
+		}
+
+		const overrideKey = this.keys(key).override;
+		const multi = this.redis.multi().del(overrideKey).hset(overrideKey, fields);
+		if (options.ttl !== undefined) {
+			multi.pexpire(overrideKey, Math.ceil(options.ttl * 1000));
+		}
+		await multi.exec();
+		this.denied?.delete(key);
+	}
+
+	/** Remove a key's override, taking it back to the configured parameters. */
+	async clearOverride(key: string): Promise<void> {
+		this.overridableFields();
+		await this.redis.del(this.keys(key).override);
+		this.denied?.delete(key);
+	}
+
+	/**
+	 * Allowed and denied counts for `key` over a time range, in total
+	 * and per bucket. Needs `analytics`.
+	 */
+	async usage(key: string, range: UsageRange = {}): Promise<KeyUsage> {
+		return this.requireAnalytics().usage(key, range);
+	}
+
+	/**
+	 * The `count` keys (default 10) denied most often over a time range,
+	 * most denied first. Needs `analytics`.
+	 *
+	 * @example
+	 * ```ts
+	 * // Who got rate-limited the most in the last hour?
+	 * const top = await limiter.topDenied({ from: Date.now() - 3_600_000 });
+	 * // [{ key: "ip:203.0.113.9", denied: 1532 }, ...]
+	 * ```
+	 */
+	async topDenied(
+		range: UsageRange & { count?: number } = {},
+	): Promise<TopKey[]> {
+		const count = range.count ?? 10;
+		if (!Number.isInteger(count) || count < 1) {
+			throw new RangeError(`count must be a positive integer, got ${count}`);
+		}
+		return this.requireAnalytics().topDenied(range, count);
+	}
+
+	/**
+	 * `limit`, minus the analytics. Bans always apply, but a rejection
+	 * only counts as a violation if `penalize` is set.
+	 */
+	private consume(
+		key: string,
+		cost: number,
+		penalize = true,
+	): Promise<RateLimitResult> {
+		return this.guard(key, cost, async () => {
+			const result = await this.strategy.limit(this.keys(key), cost);
+			// A rejection by the ban itself isn't another violation.
+			if (result.allowed || result.banned || !this.penalty || !penalize) {
+				return result;
+			}
+			return this.penalty.record(key, result);
+		});
+	}
+
+	/** Feed a decision to analytics, if on. Fallback results don't count. */
+	private record(key: string, result: RateLimitResult): void {
+		if (!result.fallback) this.analytics?.record(key, result);
+	}
+
+	private requireAnalytics(): Analytics {
+		if (!this.analytics) {
+			throw new Error("usage and topDenied need analytics to be enabled");
+		}
+		return this.analytics;
+	}
+
+	private requirePenalty(): Penalty {
+		if (!this.penalty) {
+			throw new Error("ban and unban need a penalty policy");
+		}
+		return this.penalty;
+	}
+
+	/**
+	 * The all-or-nothing side of `limitMany`. Each result reports its
+	 * key's own remaining quota and wait, but `allowed` is the verdict
+	 * for the call as a whole.
+	 */
+	private async limitAll(
+		keys: string[],
+		cost: number,
+	): Promise<RateLimitResult[]> {
+		// A banned key sinks the whole call, like any rejection, so the
+		// others are only checked, not charged.
+		const [allowed, results] = await this.batch(
+			keys.map((key) => this.keys(key)),
+			cost,
+			true,
+		);
+
+		return Promise.all(
+			results.map((result, i) => {
+				if (result.banned) return result;
+				// Only the keys that rejected the call count a violation.
+				if (!result.allowed && this.penalty) {
+					return this.penalty.record(keys[i], result);
+				}
+				return { ...result, allowed };
+			}),
+		);
+	}
+
+	/** The Redis keys a call for `key` works with. */
+	private keys(key: string): StrategyKeys {
+		return {
+			state: prefixKey(this.prefix, key),
+			override: `${this.paramsPrefix}override:${key}`,
+			tiers: this.tiersKey,
+			ban: this.penalty?.banKey(key),
+		};
+	}
+
+	/**
+	 * The fields tiers and overrides may set for this strategy.
+	 * Composite limiters don't support them at all.
+	 */
+	private overridableFields(): (keyof LimitParams)[] {
+		if (this.paramFields.length === 0) {
+			throw new Error(
+				"the composite strategy doesn't support tiers or overrides",
+			);
+		}
+		return this.paramFields;
+	}
+
+	/** A tier's fields in the tiers hash, e.g. "pro:limit". */
+	private tierFields(name: string): string[] {
+		return this.overridableFields().map((field) => `${name}:${field}`);
+	}
+
+	/** Check tier / override parameters against this limiter's strategy. */
+	private paramEntries(params: LimitParams): [string, number][] {
+		const allowed = this.overridableFields();
+		const entries = Object.entries(params).filter(
+			([, value]) => value !== undefined,
+		) as [keyof LimitParams, number][];
+		for (const [field, value] of entries) {
+			if (!allowed.includes(field)) {
+				throw new RangeError(
+					`${field} doesn't apply to this strategy (expected ${allowed.join(" or ")})`,
+				);
+			}
+			if (INTEGER_PARAMS.includes(field)) {
+				if (!Number.isInteger(value) || value < 1) {
+					throw new RangeError(
+						`${field} must be a positive integer, got ${value}`,
+					);
+				}
+			} else if (!Number.isFinite(value) || value <= 0) {
+				throw new RangeError(
+					`${field} must be a positive number, got ${value}`,
+				);
+			}
+		}
+		return entries;
+	}
+
+	/**
+	 * Run a strategy call under the timeout budget, and turn Redis
+	 * failures into a result according to `onRedisError`. With the deny
+	 * cache on, answer from it when we can and feed it rejections.
+	 */
+	private async guard(
+		key: string,
+		cost: number,
+		call: () => Promise<RateLimitResult>,
+	): Promise<RateLimitResult> {
+		const cached = this.cachedDenial(key, cost);
+		if (cached) return cached;
+
+		let result: RateLimitResult;
+		try {
+			result = await this.withTimeout(call());
+		} catch (err) {
+			if (this.onRedisError === undefined) throw err;
+			return this.fallback(err, key);
+		}
+
+		if (this.denied && !result.allowed && result.retryAfter > 0) {
+			this.denied.set(key, {
+				result,
+				cost,
+				until: Date.now() + result.retryAfter * 1000,
+			});
+		}
+		return result;
+	}
+
+	/**
+	 * A synthesized rejection for `key`, if the deny cache knows that a
+	 * call costing `cost` can't succeed yet. A rejection only tells us
+	 * that calls costing at least as much will fail — a cheaper call
+	 * may still fit, so it goes to Redis.
+	 */
+	private cachedDenial(key: string, cost: number): RateLimitResult | null {
+		const entry = this.denied?.get(key);
+		if (!entry) return null;
+
+		const now = Date.now();
+		if (now >= entry.until) {
+			this.denied?.delete(key);
+			return null;
+		}
+		if (cost < entry.cost) return null;
+
+		return { ...entry.result, retryAfter: (entry.until - now) / 1000 };
+	}
+
+	private withTimeout<T>(promise: Promise<T>): Promise<T> {
+		if (this.timeout === undefined) return promise;
+		const timeout = this.timeout;
+		return withTimeout(promise, timeout, () => new RedisTimeoutError(timeout));
+	}
+
+	private fallback(err: unknown, key: string): RateLimitResult {
+		if (typeof this.onRedisError === "function") {
+			return { ...this.onRedisError(err, key), fallback: true };
+		}
+
+		// We know nothing about the key's real state, so report nothing
+		// left either way. A denied request may retry in a second, when
+		// Redis may well be back.
+		const now = Date.now();
+		const allowed = this.onRedisError === "allow";
+		return {
+			allowed,
+			remaining: 0,
+			limit: this.configuredLimit,
+			retryAfter: allowed ? 0 : 1,
+			resetAt: allowed ? now : now + 1000,
+			fallback: true,
+		};
+	}
+}
+
+interface DeniedEntry {
+	/** The rejection as Redis reported it. */
+	result: RateLimitResult;
+	/** The cost of the rejected call. */
+	cost: number;
+	/** Epoch ms at which the rejection stops applying. */
+	until: number;
+}
+
+function resolveCost(options: LimitOptions | undefined): number {
+	const cost = options?.cost ?? 1;
+	if (!Number.isInteger(cost) || cost < 1) {
+		throw new RangeError(`cost must be a positive integer, got ${cost}`);
 	}
+	return cost;
 }
@@ -0,0 +1,207 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { rateLimitHeaders } from "./headers.js";
+import type { RateLimitResult, RateLimiter } from "./index.js";
+
+// --- Options ---
+
+export interface RateLimitMiddlewareOptions<Req, Res> {
+	/** The limiter every request is checked against. */
+	limiter: RateLimiter;
+	/**
+	 * Derive the rate limit key from a request — e.g. an API key header
+	 * or the authenticated user ID. Default: the client IP.
+	 */
+	key?: (req: Req) => string | Promise<string>;
+	/** Units this request costs. Default: 1 */
+	cost?: (req: Req) => number | Promise<number>;
+	/** Return true to let a request through without counting it. */
+	skip?: (req: Req) => boolean | Promise<boolean>;
+	/**
+	 * Respond to a rejected request. Headers are already set.
+	 * Default: 429 with a JSON `{ "error": "Too many requests" }` body.
+	 */
+	onRejected?: (req: Req, res: Res, result: RateLimitResult) => unknown;
+	/**
+	 * Set the RateLimit-* headers (and Retry-After when rejecting) on
+	 * every checked response. Default: true
+	 */
+	headers?: boolean;
+}
+
+/**
+ * The parts of a Fastify request the hook uses. Typed structurally so
+ * upredis doesn't depend on Fastify.
+ */
+export interface FastifyRequestLike {
+	ip: string;
+}
+
+/** The parts of a Fastify reply the hook uses. */
+export interface FastifyReplyLike {
+	header(name: string, value: string): unknown;
+	code(statusCode: number): FastifyReplyLike;
+	send(payload?: unknown): unknown;
+}
+
+const REJECTION_BODY = JSON.stringify({ error: "Too many requests" });
+
+// --- Shared core ---
+
+/**
+ * Run one request through the limiter.
+ * Returns null if the request was skipped.
+ */
+async function check<Req, Res>(
+	options: RateLimitMiddlewareOptions<Req, Res>,
+	req: Req,
+	defaultKey: (req: Req) => string,
+): Promise<RateLimitResult | null> {
+	if (options.skip && (await options.skip(req))) return null;
+
+	const key = options.key ? await options.key(req) : defaultKey(req);
+	const cost = options.cost ? await options.cost(req) : undefined;
+	return options.limiter.limit(key, { cost });
+}
+
+/** The client IP for a plain Node request (Express sets `req.ip`). */
+function nodeKey(req: IncomingMessage): string {
+	const ip = (req as IncomingMessage & { ip?: string }).ip;
+	return ip ?? req.socket.remoteAddress ?? "unknown";
+}
+
+function setNodeHeaders(
+	res: ServerResponse,
+	result: RateLimitResult,
+	policy: string,
+): void {
+	for (const [name, value] of Object.entries(
+		rateLimitHeaders(result, policy),
+	)) {
+		res.setHeader(name, value);
+	}
+}
+
+function rejectNode(res: ServerResponse): void {
+	res.statusCode = 429;
+	res.setHeader("Content-Type", "application/json");
+	res.end(REJECTION_BODY);
+}
+
+// --- Adapters ---
+
+/**
+ * Wrap a Node `http` request listener so it only runs for allowed
+ * requests. Errors from the limiter or `onRejected` end the response
+ * with a 500.
+ *
+ * @example
+ * ```ts
+ * const server = http.createServer(
+ *   httpRateLimit({ limiter }, (req, res) => {
+ *     res.end("hello");
+ *   }),
+ * );
+ * ```
+ */
+export function httpRateLimit(
+	options: RateLimitMiddlewareOptions<IncomingMessage, ServerResponse>,
+	handler: (req: IncomingMessage, res: ServerResponse) => unknown,
+): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+	const middleware = expressRateLimit(options);
+
+	return (req, res) =>
+		middleware(req, res, (err?: unknown) => {
+			if (err) {
+				// A failing onRejected may have started its response.
+				if (!res.headersSent) res.statusCode = 500;
+				res.end();
+				return;
+			}
+			handler(req, res);
+		});
+}
+
+/**
+ * Express-style `(req, res, next)` middleware. Errors from the limiter
+ * or `onRejected` are passed to `next(err)`.
+ *
+ * @example
+ * ```ts
+ * app.use(expressRateLimit({ limiter, key: (req) => req.get("x-api-key") ?? req.ip }));
+ * ```
+ */
+export function expressRateLimit<
+	Req extends IncomingMessage = IncomingMessage,
+	Res extends ServerResponse = ServerResponse,
+>(
+	options: RateLimitMiddlewareOptions<Req, Res>,
+): (req: Req, res: Res, next: (err?: unknown) => void) => Promise<void> {
+	return async (req, res, next) => {
+		let result: RateLimitResult | null;
+		try {
+			result = await check(options, req, nodeKey);
+		} catch (err) {
+			next(err);
+			return;
+		}
+
+		if (result === null) {
+			next();
+			return;
+		}
+
+		if (options.headers ?? true) {
+			setNodeHeaders(res, result, options.limiter.policy);
+		}
+
+		if (result.allowed) {
+			next();
+		} else if (options.onRejected) {
+			try {
+				await options.onRejected(req, res, result);
+			} catch (err) {
+				next(err);
+			}
+		} else {
+			rejectNode(res);
+		}
+	};
+}
+
+/**
+ * A Fastify `onRequest` hook. Errors from the limiter are thrown, so
+ * Fastify's error handling takes over.
+ *
+ * @example
+ * ```ts
+ * fastify.addHook("onRequest", fastifyRateLimit({ limiter }));
+ * ```
+ */
+export function fastifyRateLimit<
+	Req extends FastifyRequestLike = FastifyRequestLike,
+	Reply extends FastifyReplyLike = FastifyReplyLike,
+>(
+	options: RateLimitMiddlewareOptions<Req, Reply>,
+): (request: Req, reply: Reply) => Promise<unknown> {
+	return async (request, reply) => {
+		const result = await check(options, request, (req) => req.ip);
+		if (result === null) return;
+
+		if (options.headers ?? true) {
+			const headers = rateLimitHeaders(result, options.limiter.policy);
+			for (const [name, value] of Object.entries(headers)) {
+				reply.header(name, value);
+			}
+		}
+
+		if (result.allowed) return;
+
+		// Returning the reply tells Fastify the hook has responded.
+		if (options.onRejected) {
+			await options.onRejected(request, reply, result);
+			return reply;
+		}
+		reply.header("Content-Type", "application/json");
+		return reply.code(429).send(REJECTION_BODY);
+	};
+}
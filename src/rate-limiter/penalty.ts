@@ -0,0 +1,130 @@
+import type { Redis } from "ioredis";
+import { defineScript, evalScript } from "../utils/script.js";
+import type { Clock } from "./clock.js";
+import type { PenaltyPolicy, RateLimitResult } from "./index.js";
+import clockLua from "./scripts/clock.lua";
+import penaltyLua from "./scripts/penalty.lua";
+
+const SCRIPT = defineScript(clockLua, penaltyLua);
+
+/**
+ * Internal helper behind `RateLimiter`'s penalty policy: tracks
+ * violations, places escalating bans, and reports on them.
+ */
+export interface Penalty {
+	/**
+	 * Where `key`'s ban lives. The strategy scripts read it, rejecting
+	 * the call while there is one.
+	 */
+	banKey(key: string): string;
+	/**
+	 * Count a rejection against `key`. Returns the ban it triggered, as
+	 * a rejection, or `result` unchanged.
+	 */
+	record(key: string, result: RateLimitResult): Promise<RateLimitResult>;
+	ban(key: string, seconds: number): Promise<void>;
+	/** Lift the ban and forget the violations, but not the strikes. */
+	unban(key: string): Promise<void>;
+	/** Forget everything: ban, violations and strikes. */
+	reset(key: string): Promise<void>;
+}
+
+/**
+ * `prefix` is the limiter's parameter namespace ("rl|"), not the one
+ * its keys live in, so no key can land on a ban or violation counter.
+ */
+export function createPenalty(
+	redis: Redis,
+	clock: Clock,
+	prefix: string,
+	policy: PenaltyPolicy,
+): Penalty {
+	const threshold = policy.threshold ?? 5;
+	const decay = policy.decay ?? 600;
+	const durations = policy.bans ?? [60, 600, 3600];
+	if (durations.length === 0) {
+		throw new Error("penalty policy needs at least one ban duration");
+	}
+	// The script counts violations and sets whole-second expiries.
+	const integers: [string, number][] = [
+		["threshold", threshold],
+		["decay", decay],
+		...durations.map((d): [string, number] => ["ban duration", d]),
+	];
+	for (const [name, value] of integers) {
+		if (!Number.isInteger(value) || value < 1) {
+			throw new RangeError(`${name} must be a positive integer, got ${value}`);
+		}
+	}
+
+	const keys = (key: string) => ({
+		violations: `${prefix}violations:${key}`,
+		strikes: `${prefix}strikes:${key}`,
+		ban: `${prefix}ban:${key}`,
+	});
+
+	return {
+		banKey(key) {
+			return keys(key).ban;
+		},
+
+		async record(key, result) {
+			const k = keys(key);
+			// Returns [bannedUntil, durationMs], zeros if no ban was placed
+			const [bannedUntil, durationMs] = (await evalScript(
+				redis,
+				SCRIPT,
+				3,
+				k.violations,
+				k.strikes,
+				k.ban,
+				clock.scriptArg(),
+				threshold.toString(),
+				decay.toString(),
+				...durations.map(String),
+			)) as [number, number];
+			if (bannedUntil === 0) return result;
+			return bannedResult(bannedUntil, durationMs, result.limit);
+		},
+
+		async ban(key, seconds) {
+			const bannedUntil = (await clock.now()) + seconds * 1000;
+			await redis.set(
+				keys(key).ban,
+				bannedUntil.toString(),
+				"PX",
+				Math.ceil(seconds * 1000),
+			);
+		},
+
+		async unban(key) {
+			const k = keys(key);
+			await redis.del(k.ban, k.violations);
+		},
+
+		async reset(key) {
+			const k = keys(key);
+			await redis.del(k.ban, k.violations, k.strikes);
+		},
+	};
+}
+
+/**
+ * A banned key's rejection: nothing remaining until the ban ends at
+ * `bannedUntil`, `retryMs` from now.
+ */
+export function bannedResult(
+	bannedUntil: number,
+	retryMs: number,
+	limit: number,
+): RateLimitResult {
+	return {
+		allowed: false,
+		remaining: 0,
+		limit,
+		retryAfter: retryMs / 1000,
+		resetAt: bannedUntil,
+		banned: true,
+		bannedUntil,
+	};
+}
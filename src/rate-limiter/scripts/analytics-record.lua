@@ -0,0 +1,20 @@
+-- Rate limiter analytics: count one decision (atomic)
+--
+-- How it works:
+--   Time is cut into buckets, and each bucket has two sorted sets:
+--   one counting allowed calls per key, one counting denied calls
+--   (e.g. "rl|analytics:denied:1708617600"). A decision bumps its
+--   key's score in the current bucket's set for its outcome, which
+--   expires `retention` seconds after the bucket ends.
+--
+-- KEYS[1] = the current bucket's sorted set for the outcome
+-- ARGV[1] = the rate-limited key (the sorted set member)
+-- ARGV[2] = ms until the set expires: the rest of the bucket, plus
+--           the retention period
+--
+-- Returns: the key's count in the bucket
+
+local count = redis.call('ZINCRBY', KEYS[1], 1, ARGV[1])
+redis.call('PEXPIRE', KEYS[1], ARGV[2])
+
+return tonumber(count)
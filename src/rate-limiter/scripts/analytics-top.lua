@@ -0,0 +1,29 @@
+-- Rate limiter analytics: the keys with the highest counts (atomic)
+--
+-- How it works:
+--   Sums the per-key counts of every bucket in the range into a
+--   scratch sorted set (ZUNIONSTORE), reads the top of it and deletes
+--   it again. Buckets that have expired count as empty.
+--
+-- KEYS[1]    = the scratch key
+-- KEYS[2..n] = the buckets' sorted sets, at least one
+-- ARGV[1]    = how many keys to return
+--
+-- Returns: { key, count, key, count, ... }, highest count first
+
+-- Sum the buckets a batch at a time: unpacking thousands of keys at
+-- once would overflow Lua's stack. Each batch after the first adds to
+-- what's summed so far.
+local batch = 1000
+for first = 2, #KEYS, batch do
+    local last = math.min(first + batch - 1, #KEYS)
+    if first == 2 then
+        redis.call('ZUNIONSTORE', KEYS[1], last - first + 1, unpack(KEYS, first, last))
+    else
+        redis.call('ZUNIONSTORE', KEYS[1], last - first + 2, KEYS[1], unpack(KEYS, first, last))
+    end
+end
+local top = redis.call('ZREVRANGE', KEYS[1], 0, tonumber(ARGV[1]) - 1, 'WITHSCORES')
+redis.call('DEL', KEYS[1])
+
+return top
@@ -0,0 +1,57 @@
+-- Token bucket state (shared prelude)
+--
+-- Prepended to every script that reads or writes a token bucket. A
+-- bucket is a hash with two fields:
+--   tokens      — current number of tokens (float; negative while
+--                 reserved tokens are still on their way)
+--   last_refill — timestamp in ms the refill is counted from
+--
+-- A bucket refills either continuously, `rate` tokens per second, or
+-- in discrete steps of `rate` tokens at once every `interval_ms`.
+-- interval_ms = 0 means continuous.
+
+-- Read a bucket, refilled up to now_ms. A bucket that doesn't exist
+-- starts with `initial` tokens (nil for a full bucket).
+--
+-- Returns: tokens, last_refill
+local function read_bucket(key, capacity, rate, interval_ms, initial, now_ms)
+    local state = redis.call('HMGET', key, 'tokens', 'last_refill')
+    local tokens = tonumber(state[1])
+    if tokens == nil then
+        return math.min(capacity, initial or capacity), now_ms
+    end
+    local last_refill = tonumber(state[2])
+    if interval_ms == 0 then
+        return math.min(capacity, tokens + ((now_ms - last_refill) / 1000) * rate), now_ms
+    end
+
+    -- Only whole intervals add tokens; the one in progress carries over.
+    -- A full bucket has nothing to carry: its next step comes a whole
+    -- interval after it's next drawn from.
+    local steps = math.floor((now_ms - last_refill) / interval_ms)
+    tokens = math.min(capacity, tokens + steps * rate)
+    if tokens >= capacity then
+        return tokens, now_ms
+    end
+    return tokens, last_refill + steps * interval_ms
+end
+
+-- Returns: ms from now_ms until the bucket holds `needed` tokens, 0 if
+-- it already does
+local function bucket_wait(tokens, last_refill, needed, rate, interval_ms, now_ms)
+    if tokens >= needed then
+        return 0
+    end
+    if interval_ms == 0 then
+        return (needed - tokens) / rate * 1000
+    end
+    return last_refill + math.ceil((needed - tokens) / rate) * interval_ms - now_ms
+end
+
+-- Store a bucket. It expires a little after it would be full again —
+-- a bucket that's gone reads as new.
+local function write_bucket(key, tokens, last_refill, capacity, rate, interval_ms, now_ms)
+    redis.call('HSET', key, 'tokens', tostring(tokens), 'last_refill', tostring(last_refill))
+    local full_ms = bucket_wait(tokens, last_refill, capacity, rate, interval_ms, now_ms)
+    redis.call('PEXPIRE', key, math.ceil(full_ms) + 10000)
+end
@@ -0,0 +1,15 @@
+-- Current time (shared prelude)
+--
+-- Prepended to every script that takes the limiter's clock. Callers
+-- send their own timestamp, or "" to use the Redis server's.
+
+-- Now in ms: the caller's timestamp if it sent one, else the Redis
+-- server's clock.
+local function current_ms(arg)
+    local now_ms = tonumber(arg)
+    if now_ms == nil then
+        local time = redis.call('TIME')
+        now_ms = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+    end
+    return now_ms
+end
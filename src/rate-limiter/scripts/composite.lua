@@ -0,0 +1,77 @@
+-- Composite rate limiter (atomic)
+--
+-- How it works:
+--   Several entries — each a key checked with any of the single-key
+--   strategies — guard the same request: a composite's rules, or a
+--   batch of keys that must all be allowed. We run in two phases:
+--   1. Check every entry against its current state, writing nothing.
+--      An entry whose key is banned rejects without being checked.
+--   2. Only if every entry allows the request (and we're consuming),
+--      commit the cost to every entry
+--   Because it all runs in one script, a rejection by one entry can
+--   never leave units consumed from another. Each entry is checked and
+--   committed by its strategy's rule prelude (rules/*.lua), the same
+--   code the single-rule script runs.
+--
+-- KEYS[1] = the limiter's tiers hash (see params.lua)
+-- Each entry takes two KEYS and five ARGV slots, in order:
+--   KEYS[2i]   = the entry's base key — window-based strategies derive
+--                their per-window counter keys from it, like standalone
+--   KEYS[2i+1] = the entry's override hash (see params.lua)
+--   ARGV[4+5(i-1)+1..5] = the entry's rule (see new_rule in rule.lua)
+-- With a penalty policy, one more KEY per entry after all of those:
+--   KEYS[2n+1+i] = the ban of the entry's key (e.g. "rl|ban:user:42")
+--
+-- ARGV[1] = consume flag: "1" to consume, "0" to peek
+-- ARGV[2] = cost (units this request needs from every entry)
+-- ARGV[3] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[4] = unique request ID (names sliding-window members)
+--
+-- Returns: { allowed (0/1), then per entry: allowed, remaining,
+--            ms until allowed, epoch ms when back to the full limit,
+--            window start in seconds for window-based entries (else 0),
+--            effective limit, banned (0/1) } — see rule_reply and
+--            ban_reply in rule.lua
+
+local consume = ARGV[1] == "1"
+local cost = tonumber(ARGV[2])
+local now_ms = current_ms(ARGV[3])
+local request_id = ARGV[4]
+
+-- Phase 1: check every entry.
+local entry_count = (#ARGV - 4) / 5
+local entries = {}
+local all_allowed = 1
+for i = 1, entry_count do
+    local entry = { ban = read_ban(KEYS[2 * entry_count + 1 + i]) }
+    if not entry.ban then
+        entry.rule = new_rule(KEYS[2 * i], KEYS[2 * i + 1], KEYS[1], 4 + (i - 1) * 5, now_ms, request_id)
+        entry.result = rules[entry.rule.kind].check(entry.rule, cost)
+    end
+    if entry.ban or entry.result[1] == 0 then
+        all_allowed = 0
+    end
+    entries[i] = entry
+end
+
+-- Phase 2: commit to every entry, but only if none of them rejected.
+if all_allowed == 1 and consume then
+    for i = 1, entry_count do
+        commit_rule(entries[i].rule, cost, entries[i].result)
+    end
+end
+
+local reply = { all_allowed }
+for i = 1, entry_count do
+    local entry = entries[i]
+    local values
+    if entry.ban then
+        values = ban_reply(entry.ban)
+    else
+        values = rule_reply(entry.rule, entry.result)
+    end
+    for _, value in ipairs(values) do
+        reply[#reply + 1] = value
+    end
+end
+return reply
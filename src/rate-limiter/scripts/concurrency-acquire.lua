@@ -0,0 +1,53 @@
+-- Concurrency limiter: take a slot (atomic)
+--
+-- How it works:
+--   Each key is a sorted set of lease IDs, scored by the time (in ms)
+--   each lease expires. A holder that crashes never releases its
+--   lease, so expired leases are simply dropped:
+--   1. Remove every lease whose expiry has passed
+--   2. Count the live leases
+--   3. If there's a free slot (and we're acquiring), add our lease
+--   4. Keep the set alive exactly as long as its longest lease
+--
+-- KEYS[1] = the lease set (e.g. "cl:reports:tenant-7")
+-- ARGV[1] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[2] = limit (max concurrent leases)
+-- ARGV[3] = lease ID
+-- ARGV[4] = lease TTL in ms
+-- ARGV[5] = acquire flag: "1" to take a slot, "0" to peek
+--
+-- Returns: { allowed (0/1), slots remaining after operation,
+--            epoch ms when the new lease expires (0 if none was taken),
+--            ms until the oldest lease expires (0 if a slot is free) }
+
+local now_ms = current_ms(ARGV[1])
+local limit = tonumber(ARGV[2])
+local ttl_ms = tonumber(ARGV[4])
+local acquire = ARGV[5] == "1"
+
+-- Step 1: Leases whose holders didn't release or extend them in time.
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now_ms)
+
+-- Step 2: How many slots are taken?
+local count = redis.call('ZCARD', KEYS[1])
+
+if count >= limit then
+    -- Full. A slot is guaranteed to free up when the oldest lease
+    -- expires — holders that release sooner only shorten the wait.
+    local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+    return { 0, 0, 0, tonumber(oldest[2]) - now_ms }
+end
+
+if not acquire then
+    return { 1, limit - count, 0, 0 }
+end
+
+-- Step 3: Take the slot.
+local expires_at = now_ms + ttl_ms
+redis.call('ZADD', KEYS[1], expires_at, ARGV[3])
+
+-- Step 4: Once the longest lease has expired the set is empty anyway.
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+redis.call('PEXPIRE', KEYS[1], math.ceil(tonumber(newest[2]) - now_ms))
+
+return { 1, limit - count - 1, expires_at, 0 }
@@ -0,0 +1,29 @@
+-- Concurrency limiter: extend a lease (atomic)
+--
+-- A lease can only be extended while it's still live. Once it has
+-- expired its slot may already belong to someone else, so the holder
+-- has lost it for good.
+--
+-- KEYS[1] = the lease set (e.g. "cl:reports:tenant-7")
+-- ARGV[1] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[2] = lease ID
+-- ARGV[3] = new TTL in ms, counted from now
+--
+-- Returns: the lease's new expiry in epoch ms, or 0 if it was lost
+
+local now_ms = current_ms(ARGV[1])
+
+local score = tonumber(redis.call('ZSCORE', KEYS[1], ARGV[2]))
+if score == nil or score <= now_ms then
+    redis.call('ZREM', KEYS[1], ARGV[2])
+    return 0
+end
+
+local expires_at = now_ms + tonumber(ARGV[3])
+redis.call('ZADD', KEYS[1], expires_at, ARGV[2])
+
+-- The set must outlive its longest lease, which may now be this one.
+local newest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+redis.call('PEXPIRE', KEYS[1], math.ceil(tonumber(newest[2]) - now_ms))
+
+return expires_at
@@ -0,0 +1,40 @@
+-- Effective parameters (shared prelude)
+--
+-- Prepended to every script that reads a key's parameters. A key's parameters are
+-- resolved field by field, first match wins:
+--   1. the key's own override hash (e.g. limit = 500)
+--   2. the tier the override names (field "tier"), looked up in the
+--      limiter's tiers hash as "<tier>:<field>"
+--   3. the limiter's configured value
+-- An override that expires takes the key straight back to its
+-- configured parameters.
+--
+-- override_key = the key's override hash (e.g. "rl|override:user:42")
+-- tiers_key    = the limiter's tiers hash (e.g. "rl|tiers")
+-- fields       = the strategy's parameter names, e.g. { 'limit', 'window' }
+-- defaults     = the configured values, in the same order
+--
+-- Returns: the effective values, in the same order
+
+local function effective_params(override_key, tiers_key, fields, defaults)
+    local override = redis.call('HGETALL', override_key)
+    if #override == 0 then
+        return defaults
+    end
+
+    local set = {}
+    for i = 1, #override, 2 do
+        set[override[i]] = override[i + 1]
+    end
+
+    local values = {}
+    for i, field in ipairs(fields) do
+        local value = tonumber(set[field])
+        if value == nil and set['tier'] then
+            value = tonumber(redis.call('HGET', tiers_key, set['tier'] .. ':' .. field))
+        end
+        values[i] = value or defaults[i]
+    end
+    return values
+end
+
@@ -0,0 +1,51 @@
+-- Penalty escalation: record a violation, ban on threshold (atomic)
+--
+-- How it works:
+--   Every rejected call is a violation. Violations are counted per key
+--   and decay: the count is forgotten once the key has gone `decay`
+--   seconds without one. Reaching the threshold bans the key:
+--   1. Count the violation and refresh its decay
+--   2. Below the threshold: nothing more to do
+--   3. At the threshold: start the count over and add a strike
+--   4. The strike count picks the ban duration — each ban longer than
+--      the last, until the list runs out and the last one repeats
+--   5. Place the ban key, expiring exactly when the ban ends
+--   Strikes decay too, `decay` seconds after the ban they caused ends.
+--
+-- KEYS[1] = violation counter (e.g. "rl|violations:user:42")
+-- KEYS[2] = strike counter (e.g. "rl|strikes:user:42")
+-- KEYS[3] = ban key (e.g. "rl|ban:user:42")
+-- ARGV[1] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[2] = threshold (violations that trigger a ban)
+-- ARGV[3] = decay in seconds
+-- ARGV[4..] = ban durations in seconds, in escalation order
+--
+-- Returns: { epoch ms when the new ban ends, ban duration in ms },
+--          or { 0, 0 } if no ban was placed
+
+local now_ms = current_ms(ARGV[1])
+local threshold = tonumber(ARGV[2])
+local decay = tonumber(ARGV[3])
+
+-- Step 1: Count the violation.
+local violations = redis.call('INCR', KEYS[1])
+redis.call('EXPIRE', KEYS[1], decay)
+
+-- Step 2: Not yet.
+if violations < threshold then
+    return { 0, 0 }
+end
+
+-- Step 3: Ban. The next ban takes a fresh set of violations.
+redis.call('DEL', KEYS[1])
+local strikes = redis.call('INCR', KEYS[2])
+
+-- Step 4: Escalate.
+local durations = #ARGV - 3
+local duration = tonumber(ARGV[3 + math.min(strikes, durations)])
+redis.call('EXPIRE', KEYS[2], duration + decay)
+
+-- Step 5: The ban key holds its end time and expires with it.
+local banned_until = now_ms + duration * 1000
+redis.call('SET', KEYS[3], tostring(banned_until), 'PX', duration * 1000)
+return { banned_until, duration * 1000 }
@@ -0,0 +1,90 @@
+-- Refund consumed units (atomic)
+--
+-- How it works:
+--   Gives back units a `limit` call consumed, in whatever form the
+--   strategy keeps them:
+--   - fixed window / sliding window counter: decrement the window's
+--     counter (never below zero)
+--   - sliding window: remove the request's members — or, without a
+--     receipt, the newest members
+--   - token bucket: add tokens back, capped at capacity
+--   - GCRA: move the TAT back, but never before now
+--   State that has already expired has nothing left to refund.
+--
+-- KEYS[1] = the strategy's key (the base key for window strategies)
+-- KEYS[2] = the key's override hash, KEYS[3] = the limiter's tiers hash
+--           (see params.lua)
+-- ARGV[1] = strategy name
+-- ARGV[2] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[3] = amount (units to give back)
+-- ARGV[4] = from the receipt: the window start in seconds (window
+--           strategies) or the request ID (sliding window); "" for the
+--           current window / the newest members
+-- ARGV[5], ARGV[6] = the configured parameters, in config units:
+--           limit and window, capacity and refill rate, or
+--           emission interval and burst
+--
+-- Returns: nothing
+
+local kind = ARGV[1]
+local now_ms = current_ms(ARGV[2])
+local amount = tonumber(ARGV[3])
+local detail = ARGV[4]
+local a, b = tonumber(ARGV[5]), tonumber(ARGV[6])
+
+-- The charged window's counter key: the receipt's, or the current one.
+local function charged_key(window_sec)
+    if detail ~= '' then
+        return counter_key(KEYS[1], tonumber(detail))
+    end
+    local key = window_key(KEYS[1], window_sec, now_ms)
+    return key
+end
+
+-- DECRBY keeps the counter's TTL; capping the amount keeps it >= 0.
+local function decrement(key)
+    local count = tonumber(redis.call('GET', key))
+    if count ~= nil and count > 0 then
+        redis.call('DECRBY', key, math.min(count, amount))
+    end
+end
+
+if kind == 'fixed-window' or kind == 'sliding-window-counter' then
+    local params = effective_params(KEYS[2], KEYS[3], { 'limit', 'window' }, { a, b })
+    decrement(charged_key(params[2]))
+
+elseif kind == 'sliding-window' then
+    if detail ~= '' then
+        for i = 1, amount do
+            redis.call('ZREM', KEYS[1], detail .. ':' .. i)
+        end
+    else
+        redis.call('ZREMRANGEBYRANK', KEYS[1], -amount, -1)
+    end
+
+elseif kind == 'token-bucket' then
+    local params = effective_params(KEYS[2], KEYS[3], { 'capacity', 'refillRate' }, { a, b })
+    local capacity = params[1]
+    local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens'))
+    if tokens ~= nil then
+        -- The refill since last_refill is still to come, and is capped
+        -- at capacity when it is: capping here too comes out the same
+        -- as refilling first, whichever way the bucket refills.
+        redis.call('HSET', KEYS[1], 'tokens', tostring(math.min(capacity, tokens + amount)))
+    end
+
+elseif kind == 'gcra' then
+    local params = effective_params(KEYS[2], KEYS[3], { 'emissionInterval', 'burst' }, { a, b })
+    local emission = params[1] * 1000
+    local tat = tonumber(redis.call('GET', KEYS[1]))
+    if tat ~= nil then
+        local new_tat = math.max(now_ms, tat - emission * amount)
+        if new_tat <= now_ms then
+            redis.call('DEL', KEYS[1])
+        else
+            redis.call('SET', KEYS[1], tostring(new_tat), 'PX', math.ceil(new_tat - now_ms))
+        end
+    end
+end
+
+return 0
@@ -0,0 +1,122 @@
+-- Rate limiting rules (shared prelude)
+--
+-- Each strategy's arithmetic lives in its own prelude (rules/*.lua),
+-- which registers it in `rules`. The single-rule script and the
+-- composite script both run it from there, so a strategy behaves the
+-- same on its own as it does in a composite or an all-or-nothing batch.
+--
+-- A strategy is a table of:
+--   fields              — the parameter names tiers and overrides use,
+--                         e.g. { 'limit', 'window' }
+--   prepare(rule)       — work out what the rule needs from now: sets
+--                         rule.key (where its state lives), rule.limit
+--                         (the limit it reports) and, for window-based
+--                         strategies, rule.start (window start in seconds)
+--   check(rule, cost)   — whether `cost` fits, without consuming any of
+--                         it. Returns { allowed (0/1), remaining, ms
+--                         until allowed, ms until back to the full
+--                         limit, state for commit }
+--   commit(rule, cost, state) — consume `cost`. Returns { remaining, ms
+--                         until back to the full limit }
+--   reserve(rule, cost) — token bucket only: consume `cost` even before
+--                         it's there. Returns the same as check
+--
+-- A rule is a table of its kind, base (the key it was given), a and b
+-- (its effective parameters, in config units), now_ms, and whatever its
+-- strategy needs besides: initial and interval_ms for a token bucket,
+-- request_id for a sliding window.
+
+local rules = {}
+
+-- The counter key under `base` of the window starting at `start_sec`:
+-- "rl:user:42", 1708617600 → "rl:user:42:1708617600".
+local function counter_key(base, start_sec)
+    return base .. ':' .. string.format('%d', start_sec)
+end
+
+-- The window of `window_sec` that `at_ms` falls in: its counter key
+-- under `base` and its start in ms. With window=60, 1708617624000 →
+-- "rl:user:42:1708617600", 1708617600000.
+local function window_key(base, window_sec, at_ms)
+    local window_ms = window_sec * 1000
+    local start_ms = at_ms - (at_ms % window_ms)
+    return counter_key(base, start_ms / 1000), start_ms
+end
+
+-- The rule in the five ARGV slots after `offset`, for one key: strategy
+-- name, its two configured parameters in config units, then a token
+-- bucket's initial tokens ("" for a full bucket) and refill interval
+-- in ms ("0" for a continuous refill). The key may have its own
+-- parameters, or a tier's (see params.lua).
+--
+--   fixed-window:           limit, window sec
+--   sliding-window:         limit, window sec
+--   sliding-window-counter: limit, window sec
+--   token-bucket:           capacity, refill rate (tokens/sec or /interval)
+--   gcra:                   emission interval sec, burst
+local function new_rule(base, override_key, tiers_key, offset, now_ms, request_id)
+    local kind = ARGV[offset + 1]
+    local strategy = rules[kind]
+    local params = effective_params(
+        override_key, tiers_key, strategy.fields,
+        { tonumber(ARGV[offset + 2]), tonumber(ARGV[offset + 3]) }
+    )
+    local rule = {
+        kind = kind,
+        base = base,
+        a = params[1],
+        b = params[2],
+        now_ms = now_ms,
+        start = 0,
+        initial = tonumber(ARGV[offset + 4]),
+        interval_ms = tonumber(ARGV[offset + 5]),
+        request_id = request_id,
+    }
+    strategy.prepare(rule)
+    return rule
+end
+
+-- Consume `cost` from a rule that `result` (its check) allowed, and
+-- update the result to match.
+local function commit_rule(rule, cost, result)
+    local committed = rules[rule.kind].commit(rule, cost, result[5])
+    result[2] = committed[1]
+    result[4] = committed[2]
+end
+
+-- A rule's result as scripts reply with it: { allowed, remaining, ms
+-- until allowed, epoch ms when back to the full limit, window start in
+-- seconds (0 if none), effective limit, banned (0) }
+local function rule_reply(rule, result)
+    return {
+        result[1],
+        result[2],
+        math.ceil(result[3]),
+        rule.now_ms + math.ceil(result[4]),
+        rule.start,
+        rule.limit,
+        0,
+    }
+end
+
+-- The ban on a key, if it has one: its ban key (see penalty.lua) holds
+-- the epoch ms it ends. Returns { that end, ms left on the Redis
+-- clock }, or nil when there's no ban key or no ban.
+local function read_ban(ban_key)
+    if ban_key == nil then
+        return nil
+    end
+    local banned_until = redis.call('GET', ban_key)
+    local ttl_ms = redis.call('PTTL', ban_key)
+    if not banned_until or ttl_ms <= 0 then
+        return nil
+    end
+    return { tonumber(banned_until), ttl_ms }
+end
+
+-- A banned key's reply, in rule_reply's shape: rejected until the ban
+-- ends, with nothing remaining. The rule never ran, so it reports no
+-- window or limit.
+local function ban_reply(ban)
+    return { 0, 0, ban[2], ban[1], 0, 0, 1 }
+end
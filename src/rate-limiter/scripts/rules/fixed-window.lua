@@ -0,0 +1,36 @@
+-- Fixed window rule (shared prelude)
+--
+-- Each window gets its own counter key: the base key plus the window's
+-- start time in seconds (e.g. "rl:user:42:1708617600"). A request is
+-- allowed if its whole cost fits under the limit; only then is it
+-- added, so a rejected request never consumes part of the quota. The
+-- counter expires with its window, set on the window's first request.
+
+rules['fixed-window'] = {
+    fields = { 'limit', 'window' },
+
+    prepare = function(rule)
+        local key, start_ms = window_key(rule.base, rule.b, rule.now_ms)
+        rule.key = key
+        rule.start = start_ms / 1000
+        rule.limit = rule.a
+        rule.until_end_ms = start_ms + rule.b * 1000 - rule.now_ms
+    end,
+
+    check = function(rule, cost)
+        local count = tonumber(redis.call('GET', rule.key)) or 0
+        if count + cost > rule.limit then
+            return { 0, math.max(0, rule.limit - count), rule.until_end_ms, rule.until_end_ms }
+        end
+        return { 1, rule.limit - count, 0, rule.until_end_ms }
+    end,
+
+    commit = function(rule, cost)
+        local count = redis.call('INCRBY', rule.key, cost)
+        -- Later requests in the window leave the expiry alone.
+        if count == cost then
+            redis.call('EXPIRE', rule.key, rule.b)
+        end
+        return { rule.limit - count, rule.until_end_ms }
+    end,
+}
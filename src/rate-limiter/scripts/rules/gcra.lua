@@ -0,0 +1,50 @@
+-- GCRA (generic cell rate algorithm) rule (shared prelude)
+--
+-- Instead of counting requests, we store a single number per key: the
+-- "theoretical arrival time" (TAT) — the moment the key would be fully
+-- drained if requests kept arriving at exactly the emission interval.
+-- Each allowed request pushes the TAT forward by one emission interval
+-- per unit of cost. A request is allowed as long as the new TAT is no
+-- further ahead of now than the burst allows.
+--
+-- This is a leaky bucket expressed as a timestamp: O(1) memory per key,
+-- and the wait for a rejected request falls straight out of the
+-- arithmetic. The emission interval is configured in seconds.
+
+rules['gcra'] = {
+    fields = { 'emissionInterval', 'burst' },
+
+    prepare = function(rule)
+        rule.key = rule.base
+        rule.limit = rule.b
+        rule.emission_ms = rule.a * 1000
+        -- How far ahead of now the TAT may run before we start rejecting.
+        rule.tolerance_ms = rule.emission_ms * rule.b
+    end,
+
+    check = function(rule, cost)
+        local now_ms, emission_ms = rule.now_ms, rule.emission_ms
+        -- A TAT in the past means the key has fully drained: treat it as now.
+        local tat = tonumber(redis.call('GET', rule.key))
+        if tat == nil or tat < now_ms then
+            tat = now_ms
+        end
+        local remaining = math.floor((rule.tolerance_ms - (tat - now_ms)) / emission_ms)
+        local allow_at = tat + emission_ms * cost - rule.tolerance_ms
+        if now_ms < allow_at then
+            -- The request fits once the clock catches up with allow_at.
+            return { 0, math.max(0, remaining), allow_at - now_ms, tat - now_ms }
+        end
+        return { 1, remaining, 0, tat - now_ms, tat }
+    end,
+
+    commit = function(rule, cost, tat)
+        local now_ms = rule.now_ms
+        local new_tat = tat + rule.emission_ms * cost
+        -- Once the TAT passes, the key carries no information (a missing
+        -- key means "fully drained"), so it expires exactly then.
+        redis.call('SET', rule.key, tostring(new_tat), 'PX', math.ceil(new_tat - now_ms))
+        local remaining = math.floor((rule.tolerance_ms - (new_tat - now_ms)) / rule.emission_ms)
+        return { remaining, new_tat - now_ms }
+    end,
+}
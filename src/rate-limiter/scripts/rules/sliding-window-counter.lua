@@ -0,0 +1,76 @@
+-- Sliding window counter rule (shared prelude)
+--
+-- One plain counter per fixed window, bucketed like the fixed window's,
+-- and an estimate of the sliding window from the current and previous
+-- one. The previous window's count is weighted by how much of it still
+-- overlaps the sliding window:
+--
+--   estimated = previous * weight + current
+--   weight    = 1 - (time elapsed in current window / window)
+--
+-- This assumes the previous window's requests were spread evenly. Two
+-- counters per key, regardless of the limit.
+
+rules['sliding-window-counter'] = {
+    fields = { 'limit', 'window' },
+
+    prepare = function(rule)
+        local window_ms = rule.b * 1000
+        local key, start_ms = window_key(rule.base, rule.b, rule.now_ms)
+        rule.key = key
+        rule.previous_key = window_key(rule.base, rule.b, start_ms - window_ms)
+        rule.start = start_ms / 1000
+        rule.limit = rule.a
+        rule.window_ms = window_ms
+        rule.weight = 1 - (rule.now_ms - start_ms) / window_ms
+    end,
+
+    check = function(rule, cost)
+        local limit, window_ms, weight = rule.limit, rule.window_ms, rule.weight
+        local current = tonumber(redis.call('GET', rule.key)) or 0
+        local previous = tonumber(redis.call('GET', rule.previous_key)) or 0
+        local estimated = previous * weight + current
+
+        -- The estimate is zero once every counted request is out of the
+        -- picture: the current window's count stops mattering at the end
+        -- of the next window, the previous window's at the end of this one.
+        local reset_ms = 0
+        if current > 0 then
+            reset_ms = weight * window_ms + window_ms
+        elseif previous > 0 then
+            reset_ms = weight * window_ms
+        end
+
+        if estimated + cost > limit then
+            -- Work out when the estimate will have decayed enough.
+            local wait_ms
+            if current + cost <= limit and previous > 0 then
+                -- Fits within this window once the previous window's
+                -- weight drops to (limit - current - cost) / previous.
+                wait_ms = (weight - (limit - current - cost) / previous) * window_ms
+            else
+                -- Doesn't fit until after this window ends, when the
+                -- current count becomes the previous one and starts
+                -- decaying itself.
+                local target = 0
+                if current > 0 then
+                    target = math.max(0, limit - cost) / current
+                end
+                wait_ms = weight * window_ms + (1 - math.min(1, target)) * window_ms
+            end
+            return { 0, math.max(0, math.floor(limit - estimated)), wait_ms, reset_ms }
+        end
+        return { 1, math.floor(limit - estimated), 0, reset_ms, estimated }
+    end,
+
+    commit = function(rule, cost, estimated)
+        redis.call('INCRBY', rule.key, cost)
+        -- Keep the counter for two windows: it's read again as the
+        -- "previous" window throughout the next one.
+        redis.call('EXPIRE', rule.key, rule.b * 2)
+        return {
+            math.floor(rule.limit - estimated - cost),
+            rule.weight * rule.window_ms + rule.window_ms,
+        }
+    end,
+}
@@ -0,0 +1,56 @@
+-- Sliding window rule (shared prelude)
+--
+-- Each unit of a request is a member of a sorted set, scored by its
+-- timestamp in ms and named after the request ID and the unit's index:
+-- unique even for requests at the same millisecond, and what a refund
+-- removes. Entries older than the window are pruned before counting.
+-- A request that doesn't fit adds nothing.
+
+rules['sliding-window'] = {
+    fields = { 'limit', 'window' },
+
+    prepare = function(rule)
+        rule.key = rule.base
+        rule.limit = rule.a
+        rule.window_ms = rule.b * 1000
+    end,
+
+    check = function(rule, cost)
+        local now_ms, window_ms = rule.now_ms, rule.window_ms
+        redis.call('ZREMRANGEBYSCORE', rule.key, '-inf', now_ms - window_ms)
+        local count = redis.call('ZCARD', rule.key)
+
+        -- The window is empty again once its newest entry expires.
+        local reset_ms = 0
+        local newest = redis.call('ZRANGE', rule.key, -1, -1, 'WITHSCORES')
+        if newest[2] then
+            reset_ms = tonumber(newest[2]) + window_ms - now_ms
+        end
+
+        if count + cost > rule.limit then
+            -- The request fits once enough of the oldest entries have
+            -- left the window. We need `count + cost - limit` of them
+            -- gone, so the wait ends when the last of those expires. (A
+            -- cost above the limit never fits. Needing more entries gone
+            -- than there are, it waits for the newest — until the window
+            -- is empty — or, if it's empty already, a full window.)
+            local retry_ms = window_ms
+            if count > 0 then
+                local index = math.min(count + cost - rule.limit, count) - 1
+                local entry = redis.call('ZRANGE', rule.key, index, index, 'WITHSCORES')
+                retry_ms = tonumber(entry[2]) + window_ms - now_ms
+            end
+            return { 0, math.max(0, rule.limit - count), retry_ms, reset_ms }
+        end
+        return { 1, rule.limit - count, 0, reset_ms, count }
+    end,
+
+    commit = function(rule, cost, count)
+        for i = 1, cost do
+            redis.call('ZADD', rule.key, rule.now_ms, rule.request_id .. ':' .. i)
+        end
+        -- Every entry in the set expires within one window.
+        redis.call('EXPIRE', rule.key, rule.b)
+        return { rule.limit - count - cost, rule.window_ms }
+    end,
+}
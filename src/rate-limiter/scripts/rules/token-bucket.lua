@@ -0,0 +1,60 @@
+-- Token bucket rule (shared prelude)
+--
+-- The bucket is a hash (see bucket.lua), refilled up to now on every
+-- read. A check writes the refilled state back even when it consumes
+-- nothing: a new bucket then starts refilling from its first call,
+-- not from the first call it allows.
+
+rules['token-bucket'] = {
+    fields = { 'capacity', 'refillRate' },
+
+    prepare = function(rule)
+        rule.key = rule.base
+        rule.limit = rule.a
+    end,
+
+    check = function(rule, cost)
+        local capacity, rate, interval_ms, now_ms = rule.a, rule.b, rule.interval_ms, rule.now_ms
+        local tokens, last_refill = read_bucket(rule.key, capacity, rate, interval_ms, rule.initial, now_ms)
+        write_bucket(rule.key, tokens, last_refill, capacity, rate, interval_ms, now_ms)
+        local reset_ms = bucket_wait(tokens, last_refill, capacity, rate, interval_ms, now_ms)
+        local remaining = math.max(0, math.floor(tokens))
+        if tokens < cost then
+            local retry_ms = bucket_wait(tokens, last_refill, cost, rate, interval_ms, now_ms)
+            return { 0, remaining, retry_ms, reset_ms }
+        end
+        return { 1, remaining, 0, reset_ms, { tokens, last_refill } }
+    end,
+
+    commit = function(rule, cost, bucket)
+        local capacity, rate, interval_ms, now_ms = rule.a, rule.b, rule.interval_ms, rule.now_ms
+        local tokens, last_refill = bucket[1] - cost, bucket[2]
+        write_bucket(rule.key, tokens, last_refill, capacity, rate, interval_ms, now_ms)
+        return {
+            math.floor(tokens),
+            bucket_wait(tokens, last_refill, capacity, rate, interval_ms, now_ms),
+        }
+    end,
+
+    -- Take the tokens now and report when they'll be there, leaving the
+    -- bucket in debt until then. Only more than it can ever hold is
+    -- refused.
+    reserve = function(rule, cost)
+        local capacity, rate, interval_ms, now_ms = rule.a, rule.b, rule.interval_ms, rule.now_ms
+        local tokens, last_refill = read_bucket(rule.key, capacity, rate, interval_ms, rule.initial, now_ms)
+        local allowed, retry_ms = 0, 0
+        if cost <= capacity then
+            retry_ms = bucket_wait(tokens, last_refill, cost, rate, interval_ms, now_ms)
+            tokens = tokens - cost
+            allowed = 1
+        end
+        write_bucket(rule.key, tokens, last_refill, capacity, rate, interval_ms, now_ms)
+        -- A bucket in debt has nothing remaining.
+        return {
+            allowed,
+            math.max(0, math.floor(tokens)),
+            retry_ms,
+            bucket_wait(tokens, last_refill, capacity, rate, interval_ms, now_ms),
+        }
+    end,
+}
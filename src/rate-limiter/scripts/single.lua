@@ -0,0 +1,51 @@
+-- Single-rule rate limiter (atomic)
+--
+-- How it works:
+--   One key checked with one strategy, whose arithmetic comes from its
+--   rule prelude (rules/*.lua) — the same code the composite script
+--   runs for each of its entries:
+--   1. If the key is banned, reject it without touching its state
+--   2. Check the rule against the key's current state
+--   3. If it allows the request and we're consuming, commit the cost
+--   A reservation (token bucket only) takes the cost in one step,
+--   whether or not it's there yet.
+--
+-- KEYS[1] = the base key (e.g. "rl:user:42") — window-based strategies
+--           derive their per-window counter keys from it
+-- KEYS[2] = the key's override hash, KEYS[3] = the limiter's tiers hash
+--           (see params.lua)
+-- KEYS[4] = with a penalty policy only: the key's ban (e.g. "rl|ban:user:42")
+-- ARGV[1] = mode: "1" to consume, "0" to peek, "2" to reserve
+-- ARGV[2] = cost (units this request needs)
+-- ARGV[3] = current timestamp in ms, or "" to use the Redis server's clock
+-- ARGV[4] = unique request ID (names sliding-window members, so a
+--           refund can find them)
+-- ARGV[5..9] = the rule (see new_rule in rule.lua)
+--
+-- Returns: { allowed (0/1), remaining, ms until allowed (for a
+--            reservation: until its units are there), epoch ms when
+--            back to the full limit, window start in seconds for
+--            window-based strategies (else 0), effective limit,
+--            banned (0/1) } — see rule_reply and ban_reply in rule.lua
+
+local ban = read_ban(KEYS[4])
+if ban then
+    return ban_reply(ban)
+end
+
+local mode = ARGV[1]
+local cost = tonumber(ARGV[2])
+local now_ms = current_ms(ARGV[3])
+local rule = new_rule(KEYS[1], KEYS[2], KEYS[3], 4, now_ms, ARGV[4])
+
+local result
+if mode == "2" then
+    result = rules[rule.kind].reserve(rule, cost)
+else
+    result = rules[rule.kind].check(rule, cost)
+    if result[1] == 1 and mode == "1" then
+        commit_rule(rule, cost, result)
+    end
+end
+
+return rule_reply(rule, result)
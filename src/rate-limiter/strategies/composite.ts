@@ -0,0 +1,278 @@
+import type { Redis } from "ioredis";
+import { defineScript, evalScript } from "../../utils/script.js";
+import type { Clock } from "../clock.js";
+import type { RateLimitResult, RateLimitRule } from "../index.js";
+import { bannedResult } from "../penalty.js";
+import bucketLua from "../scripts/bucket.lua";
+import clockLua from "../scripts/clock.lua";
+import compositeLua from "../scripts/composite.lua";
+import paramsLua from "../scripts/params.lua";
+import ruleLua from "../scripts/rule.lua";
+import fixedWindowLua from "../scripts/rules/fixed-window.lua";
+import gcraLua from "../scripts/rules/gcra.lua";
+import slidingWindowCounterLua from "../scripts/rules/sliding-window-counter.lua";
+import slidingWindowLua from "../scripts/rules/sliding-window.lua";
+import tokenBucketLua from "../scripts/rules/token-bucket.lua";
+import { windowKey } from "./fixed-window.js";
+import { ruleArgs, ruleLimit } from "./params.js";
+import { type Receipt, encodeReceipt } from "./receipt.js";
+import { runRefund } from "./refund.js";
+import { requestId, ruleReceipt } from "./rule.js";
+import type { RateLimitStrategy, StrategyKeys } from "./types.js";
+
+// Every strategy's rule, since entries can use any of them.
+const SCRIPT = defineScript(
+	clockLua,
+	paramsLua,
+	bucketLua,
+	ruleLua,
+	fixedWindowLua,
+	slidingWindowLua,
+	slidingWindowCounterLua,
+	tokenBucketLua,
+	gcraLua,
+	compositeLua,
+);
+
+/** The keys a composite's rule works with: its own suffix of the key. */
+function subKeys(keys: StrategyKeys, name: string): StrategyKeys {
+	return { ...keys, state: `${keys.state}:${name}` };
+}
+
+/**
+ * Every key a rule may be holding state under at `nowMs`.
+ * Window-based strategies bucket their keys exactly like their
+ * standalone counterparts, under the rule's own suffix.
+ */
+function ruleKeys(rule: RateLimitRule, key: string, nowMs: number): string[] {
+	switch (rule.strategy) {
+		case "fixed-window":
+			return [windowKey(key, rule.window, nowMs)];
+		case "sliding-window-counter":
+			return [
+				windowKey(key, rule.window, nowMs),
+				windowKey(key, rule.window, nowMs - rule.window * 1000),
+			];
+		default:
+			return [key];
+	}
+}
+
+/** One key checked against one rule, as part of an all-or-nothing call. */
+interface Entry {
+	/** `state` is the entry's base key. */
+	keys: StrategyKeys;
+	rule: RateLimitRule;
+}
+
+/** One entry's outcome. `allowed` is its own verdict, not the call's. */
+interface EntryResult {
+	allowed: boolean;
+	remaining: number;
+	limit: number;
+	retryAfter: number;
+	resetAt: number;
+	/** Whether the entry's key is banned; if so, it wasn't checked. */
+	banned: boolean;
+	/** What the entry consumed, if the call was allowed and consumed. */
+	receipt: Receipt;
+}
+
+/**
+ * Check every entry and, only if all of them allow it, consume `cost`
+ * from each — in a single script run. A banned key rejects the call,
+ * like an entry that doesn't allow it. Resolves whether the call was
+ * allowed, and each entry's outcome in order.
+ */
+async function runEntries(
+	redis: Redis,
+	clock: Clock,
+	entries: Entry[],
+	cost: number,
+	consume: boolean,
+): Promise<[boolean, EntryResult[]]> {
+	const id = requestId();
+	const keys: string[] = [entries[0].keys.tiers];
+	const args: string[] = [
+		consume ? "1" : "0",
+		cost.toString(),
+		clock.scriptArg(),
+		id,
+	];
+	for (const { keys: entryKeys, rule } of entries) {
+		keys.push(entryKeys.state, entryKeys.override);
+		args.push(...ruleArgs(rule));
+	}
+	// Every entry has a ban key, or none does.
+	keys.push(...entries.flatMap(({ keys: entryKeys }) => entryKeys.ban ?? []));
+
+	// Returns [allowed, then allowed/remaining/retryMs/resetAt/window
+	// start/effective limit/banned per entry]
+	const reply = (await evalScript(
+		redis,
+		SCRIPT,
+		keys.length,
+		...keys,
+		...args,
+	)) as number[];
+
+	const results = entries.map(({ rule }, i) => ({
+		allowed: reply[1 + i * 7] === 1,
+		remaining: reply[2 + i * 7],
+		limit: reply[6 + i * 7],
+		retryAfter: reply[3 + i * 7] / 1000,
+		resetAt: reply[4 + i * 7],
+		banned: reply[7 + i * 7] === 1,
+		receipt: ruleReceipt(rule, cost, reply[5 + i * 7], id),
+	}));
+	return [reply[0] === 1, results];
+}
+
+/**
+ * One key's result from its rules' entries. The binding rule: among
+ * those that rejected, the one that makes the caller wait longest; if
+ * none rejected, the one with the least room left.
+ */
+function combine(
+	names: string[],
+	allowed: boolean,
+	results: EntryResult[],
+	cost: number,
+	consume: boolean,
+): RateLimitResult {
+	const named = results.map((result, i) => ({ ...result, name: names[i] }));
+	const rejected = named.filter((r) => !r.allowed);
+	const binding =
+		rejected.length > 0
+			? rejected.reduce((a, b) => (b.retryAfter > a.retryAfter ? b : a))
+			: named.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+
+	// A receipt names what each rule consumed, so that each can be
+	// refunded the way its standalone strategy would be.
+	let receipt: string | undefined;
+	if (allowed && consume) {
+		const rules: Record<string, Receipt> = {};
+		for (const { name, receipt } of named) rules[name] = receipt;
+		receipt = encodeReceipt({ cost, rules });
+	}
+
+	return {
+		allowed,
+		remaining: Math.min(...named.map((r) => r.remaining)),
+		limit: binding.limit,
+		retryAfter: binding.allowed ? 0 : binding.retryAfter,
+		resetAt: binding.resetAt,
+		rule: binding.name,
+		receipt,
+	};
+}
+
+export function createComposite(
+	redis: Redis,
+	clock: Clock,
+	rules: RateLimitRule[],
+): RateLimitStrategy {
+	if (rules.length === 0) {
+		throw new Error("composite strategy needs at least one rule");
+	}
+
+	const named = rules.map((rule, i) => ({ rule, name: rule.name ?? `${i}` }));
+	const batch = createBatch(redis, clock, rules, true);
+
+	async function run(
+		keys: StrategyKeys,
+		cost: number,
+		consume: boolean,
+	): Promise<RateLimitResult> {
+		const [, [result]] = await batch([keys], cost, consume);
+		return result;
+	}
+
+	return {
+		// Composite limiters don't support overrides: the override key
+		// never exists, so every rule runs with its configured parameters.
+		limit(keys: StrategyKeys, cost: number) {
+			return run(keys, cost, true);
+		},
+		peek(keys: StrategyKeys, cost: number) {
+			return run(keys, cost, false);
+		},
+		async reset({ state: key }: StrategyKeys) {
+			const nowMs = await clock.now();
+			const keys = named.flatMap(({ rule, name }) =>
+				ruleKeys(rule, `${key}:${name}`, nowMs),
+			);
+			await redis.del(...keys);
+		},
+		async refund(keys: StrategyKeys, amount: number, receipt) {
+			// Every rule was charged the same cost, so each gives back the
+			// same amount, from its own key.
+			await Promise.all(
+				named.map(({ rule, name }) =>
+					runRefund(
+						redis,
+						clock,
+						rule,
+						subKeys(keys, name),
+						amount,
+						receipt?.rules?.[name],
+					),
+				),
+			);
+		},
+	};
+}
+
+/**
+ * Check several keys at once, all or nothing: every key's rules become
+ * entries of one script run, so either each key is charged `cost` or
+ * none is. Each result's `allowed` is that key's own verdict — a
+ * banned key's result is its ban — and the first element says whether
+ * the call as a whole was allowed.
+ */
+export function createBatch(
+	redis: Redis,
+	clock: Clock,
+	rules: RateLimitRule[],
+	composite: boolean,
+): (
+	keys: StrategyKeys[],
+	cost: number,
+	consume: boolean,
+) => Promise<[boolean, RateLimitResult[]]> {
+	const names = rules.map((rule, i) => rule.name ?? `${i}`);
+	// What a banned key's result reports, like any rejection that
+	// isn't down to one rule.
+	const limit = Math.min(...rules.map(ruleLimit));
+
+	return async (keys, cost, consume) => {
+		const entries = keys.flatMap((k) =>
+			rules.map((rule, i) => ({
+				keys: composite ? subKeys(k, names[i]) : k,
+				rule,
+			})),
+		);
+		const [allowed, results] = await runEntries(
+			redis,
+			clock,
+			entries,
+			cost,
+			consume,
+		);
+
+		const perKey = keys.map((_, k) => {
+			const own = results.slice(k * rules.length, (k + 1) * rules.length);
+			const ban = own.find((r) => r.banned);
+			if (ban) return bannedResult(ban.resetAt, ban.retryAfter * 1000, limit);
+			const ownAllowed = own.every((r) => r.allowed);
+			if (composite) {
+				return combine(names, ownAllowed, own, cost, allowed && consume);
+			}
+			const [{ receipt, ...result }] = own;
+			return allowed && consume
+				? { ...result, receipt: encodeReceipt(receipt) }
+				: result;
+		});
+		return [allowed, perKey];
+	};
+}
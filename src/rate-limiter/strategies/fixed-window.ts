@@ -1,86 +1,69 @@
 import type { Redis } from "ioredis";
-import type { RateLimitResult } from "../index.js";
-import type { RateLimitStrategy } from "./types.js";
+import type { Clock } from "../clock.js";
+import type { RateLimitRule } from "../index.js";
+import fixedWindowLua from "../scripts/rules/fixed-window.lua";
+import { effectiveParam } from "./params.js";
+import { runRefund } from "./refund.js";
+import { runRule, singleScript } from "./rule.js";
+import type { RateLimitStrategy, StrategyKeys } from "./types.js";
+
+const SCRIPT = singleScript(fixedWindowLua);
 
 /**
- * Derive the Redis key for the current window.
+ * Derive the Redis key for the window containing `nowMs`.
  *
- * We floor the current timestamp to the nearest window boundary and
+ * We floor the timestamp to the nearest window boundary and
  * append it to the base key. Each window gets its own independent
- * counter that auto-expires when the window ends.
+ * counter that auto-expires when the window ends. The Lua scripts
+ * derive the same key server-side.
  *
  * Example with window=60:
  *   timestamp 1708617624 → floor(1708617624/60)*60 = 1708617600
  *   key = "rl:user:42:1708617600"
  */
-function windowKey(baseKey: string, windowSec: number): string {
-	const now = Math.floor(Date.now() / 1000);
+export function windowKey(
+	baseKey: string,
+	windowSec: number,
+	nowMs: number,
+): string {
+	const now = Math.floor(nowMs / 1000);
 	const windowStart = Math.floor(now / windowSec) * windowSec;
 	return `${baseKey}:${windowStart}`;
 }
 
-/**
- * How many seconds remain until the current window expires.
- */
-function secondsUntilWindowEnd(windowSec: number): number {
-	const now = Date.now() / 1000;
-	const windowStart = Math.floor(now / windowSec) * windowSec;
-	return Math.ceil(windowStart + windowSec - now);
-}
-
 export function createFixedWindow(
 	redis: Redis,
+	clock: Clock,
 	limit: number,
 	windowSec: number,
 ): RateLimitStrategy {
-	return {
-		async limit(key: string): Promise<RateLimitResult> {
-			const wKey = windowKey(key, windowSec);
-
-			// INCR is atomic — if the key doesn't exist, Redis creates it at 0
-			// then increments to 1, all in one step.
-			const count = await redis.incr(wKey);
-
-			// On the very first request in this window (count === 1), set the
-			// expiry so the key self-destructs when the window ends.
-			// If we crash between INCR and EXPIRE, the key lives forever —
-			// but it's just a stale counter, not a correctness issue.
-			if (count === 1) {
-				await redis.expire(wKey, windowSec);
-			}
+	const rule: RateLimitRule = {
+		strategy: "fixed-window",
+		limit,
+		window: windowSec,
+	};
 
-			const allowed = count <= limit;
-			return {
-				allowed,
-				remaining: Math.max(0, limit - count),
-				limit,
-				retryAfter: allowed ? 0 : secondsUntilWindowEnd(windowSec),
-			};
+	return {
+		limit(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "limit");
 		},
 
-		async peek(key: string): Promise<RateLimitResult> {
-			const wKey = windowKey(key, windowSec);
-
-			// GET instead of INCR — read without consuming.
-			// Returns null if the key doesn't exist (no requests yet).
-			const raw = await redis.get(wKey);
-			const count = raw ? Number.parseInt(raw, 10) : 0;
-
-			const allowed = count < limit;
-			return {
-				allowed,
-				remaining: Math.max(0, limit - count),
-				limit,
-				retryAfter: allowed ? 0 : secondsUntilWindowEnd(windowSec),
-			};
+		peek(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "peek");
 		},
 
-		async reset(key: string): Promise<void> {
+		async reset(keys: StrategyKeys): Promise<void> {
 			// DEL the current window's key. This resets the counter to 0
 			// for this window. Previous windows are already expired or
-			// will expire on their own.
-			const wKey = windowKey(key, windowSec);
+			// will expire on their own. The window may be overridden
+			// for this key, which moves its boundaries.
+			const window = await effectiveParam(redis, keys, "window", windowSec);
+			const wKey = windowKey(keys.state, window, await clock.now());
 			await redis.del(wKey);
 		},
+
+		refund(keys: StrategyKeys, amount: number, receipt) {
+			return runRefund(redis, clock, rule, keys, amount, receipt);
+		},
 	};
 }
@@ -0,0 +1,37 @@
+import type { Redis } from "ioredis";
+import type { Clock } from "../clock.js";
+import type { RateLimitRule } from "../index.js";
+import gcraLua from "../scripts/rules/gcra.lua";
+import { runRefund } from "./refund.js";
+import { runRule, singleScript } from "./rule.js";
+import type { RateLimitStrategy, StrategyKeys } from "./types.js";
+
+const SCRIPT = singleScript(gcraLua);
+
+export function createGcra(
+	redis: Redis,
+	clock: Clock,
+	emissionIntervalSec: number,
+	burst: number,
+): RateLimitStrategy {
+	const rule: RateLimitRule = {
+		strategy: "gcra",
+		emissionInterval: emissionIntervalSec,
+		burst,
+	};
+
+	return {
+		limit(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "limit");
+		},
+		peek(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "peek");
+		},
+		async reset(keys: StrategyKeys) {
+			await redis.del(keys.state);
+		},
+		refund(keys: StrategyKeys, amount: number, receipt) {
+			return runRefund(redis, clock, rule, keys, amount, receipt);
+		},
+	};
+}
@@ -0,0 +1,79 @@
+import type { Redis } from "ioredis";
+import type { RateLimitRule } from "../index.js";
+import type { StrategyKeys } from "./types.js";
+
+/**
+ * Resolve one effective parameter the way params.lua does: the key's
+ * override, then its tier's value, then the configured one. For the
+ * few places that need it outside a script.
+ */
+export async function effectiveParam(
+	redis: Redis,
+	keys: StrategyKeys,
+	field: string,
+	configured: number,
+): Promise<number> {
+	const [own, tier] = await redis.hmget(keys.override, field, "tier");
+	if (own !== null) return Number(own);
+	if (tier !== null) {
+		const fromTier = await redis.hget(keys.tiers, `${tier}:${field}`);
+		if (fromTier !== null) return Number(fromTier);
+	}
+	return configured;
+}
+
+/** The configured limit / capacity a rule reports in its result. */
+export function ruleLimit(rule: RateLimitRule): number {
+	switch (rule.strategy) {
+		case "token-bucket":
+			return rule.capacity;
+		case "gcra":
+			return rule.burst ?? 1;
+		default:
+			return rule.limit;
+	}
+}
+
+/**
+ * A rule's two configured parameters, in config units — the layout the
+ * limit and refund scripts take, and the order tiers and overrides
+ * list their fields in.
+ */
+export function ruleParams(rule: RateLimitRule): [number, number] {
+	switch (rule.strategy) {
+		case "fixed-window":
+		case "sliding-window":
+		case "sliding-window-counter":
+			return [rule.limit, rule.window];
+		case "token-bucket":
+			return [rule.capacity, rule.refillRate];
+		case "gcra":
+			return [rule.emissionInterval, rule.burst ?? 1];
+	}
+}
+
+/**
+ * A token bucket rule's refill shape, in the layout the scripts take:
+ * the tokens a new bucket starts with ("" for a full bucket), then the
+ * refill interval in ms ("0" for a continuous refill). Other strategies
+ * have neither.
+ */
+export function bucketOptions(rule: RateLimitRule): [string, string] {
+	if (rule.strategy !== "token-bucket") return ["", "0"];
+	return [
+		rule.initialTokens?.toString() ?? "",
+		((rule.refillInterval ?? 0) * 1000).toString(),
+	];
+}
+
+/**
+ * A rule as the limit scripts take it: strategy name, configured
+ * parameters, then the token bucket's refill shape.
+ */
+export function ruleArgs(rule: RateLimitRule): string[] {
+	return [
+		rule.strategy,
+		...ruleParams(rule).map(String),
+		...bucketOptions(rule),
+	];
+}
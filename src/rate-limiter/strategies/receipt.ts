@@ -0,0 +1,57 @@
+/**
+ * What a `limit` call consumed, as far as a refund needs to know.
+ * Handed to callers as an opaque string (see `encodeReceipt`).
+ */
+export interface Receipt {
+	/** Units consumed. */
+	cost: number;
+	/** Window strategies: start (epoch seconds) of the window charged. */
+	window?: number;
+	/** Sliding window: the request ID its members were named after. */
+	id?: string;
+	/** Composite: each rule's own receipt, by rule name. */
+	rules?: Record<string, Receipt>;
+}
+
+/**
+ * Serialize a receipt. Callers only pass it back to `refund`, so the
+ * format is ours to change: base64url JSON.
+ */
+export function encodeReceipt(receipt: Receipt): string {
+	return Buffer.from(JSON.stringify(receipt)).toString("base64url");
+}
+
+export function decodeReceipt(encoded: string): Receipt {
+	let receipt: unknown;
+	try {
+		receipt = JSON.parse(Buffer.from(encoded, "base64url").toString());
+	} catch {
+		throw new RangeError("invalid receipt");
+	}
+	if (!isReceipt(receipt)) {
+		throw new RangeError("invalid receipt");
+	}
+	return receipt;
+}
+
+/**
+ * Whether a decoded value has a receipt's shape. The refund script
+ * builds key names from `window` and `id`, so a receipt that isn't
+ * ours must not get that far: a window like "1:1708617600" would name
+ * another key's counter.
+ */
+function isReceipt(value: unknown): value is Receipt {
+	if (typeof value !== "object" || value === null) return false;
+	const { cost, window, id, rules } = value as Record<string, unknown>;
+	const positive = (n: unknown) => Number.isInteger(n) && (n as number) >= 1;
+	if (!positive(cost)) return false;
+	if (window !== undefined && !positive(window)) return false;
+	if (id !== undefined && typeof id !== "string") return false;
+	if (rules === undefined) return true;
+	return (
+		typeof rules === "object" &&
+		rules !== null &&
+		!Array.isArray(rules) &&
+		Object.values(rules).every(isReceipt)
+	);
+}
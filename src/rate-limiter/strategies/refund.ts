@@ -0,0 +1,41 @@
+import type { Redis } from "ioredis";
+import { defineScript, evalScript } from "../../utils/script.js";
+import type { Clock } from "../clock.js";
+import type { RateLimitRule } from "../index.js";
+import clockLua from "../scripts/clock.lua";
+import paramsLua from "../scripts/params.lua";
+import refundLua from "../scripts/refund.lua";
+import ruleLua from "../scripts/rule.lua";
+import { ruleParams } from "./params.js";
+import type { Receipt } from "./receipt.js";
+import type { StrategyKeys } from "./types.js";
+
+const SCRIPT = defineScript(clockLua, paramsLua, ruleLua, refundLua);
+
+/**
+ * Give back `amount` units to a single-strategy key. Shared by every
+ * strategy, since a refund only needs to know where the units went.
+ */
+export async function runRefund(
+	redis: Redis,
+	clock: Clock,
+	rule: RateLimitRule,
+	keys: StrategyKeys,
+	amount: number,
+	receipt: Receipt | undefined,
+): Promise<void> {
+	const detail = receipt?.window ?? receipt?.id ?? "";
+	await evalScript(
+		redis,
+		SCRIPT,
+		3,
+		keys.state,
+		keys.override,
+		keys.tiers,
+		rule.strategy,
+		clock.scriptArg(),
+		amount.toString(),
+		detail.toString(),
+		...ruleParams(rule).map(String),
+	);
+}
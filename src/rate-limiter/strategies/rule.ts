@@ -0,0 +1,99 @@
+import { randomBytes } from "node:crypto";
+import type { Redis } from "ioredis";
+import { type Script, defineScript, evalScript } from "../../utils/script.js";
+import type { Clock } from "../clock.js";
+import type { RateLimitResult, RateLimitRule } from "../index.js";
+import { bannedResult } from "../penalty.js";
+import clockLua from "../scripts/clock.lua";
+import paramsLua from "../scripts/params.lua";
+import ruleLua from "../scripts/rule.lua";
+import singleLua from "../scripts/single.lua";
+import { ruleArgs, ruleLimit } from "./params.js";
+import { type Receipt, encodeReceipt } from "./receipt.js";
+import type { StrategyKeys } from "./types.js";
+
+/** What the single-rule script does with the cost: its mode flag. */
+const MODES = { peek: "0", limit: "1", reserve: "2" };
+
+/**
+ * Generate a unique ID for each request. Sliding window members are
+ * named after it, so it has to be unique on its own — two requests at
+ * the same millisecond must still be stored as separate entries — and
+ * it's what a refund receipt uses to find them again.
+ */
+export function requestId(): string {
+	return randomBytes(9).toString("base64url");
+}
+
+/**
+ * The single-rule script for one strategy, given its rule prelude
+ * (scripts/rules/*.lua) and any preludes that builds on.
+ */
+export function singleScript(...rules: string[]): Script {
+	return defineScript(clockLua, paramsLua, ruleLua, ...rules, singleLua);
+}
+
+/** What one rule's standalone strategy puts in its receipt. */
+export function ruleReceipt(
+	rule: RateLimitRule,
+	cost: number,
+	window: number,
+	id: string,
+): Receipt {
+	switch (rule.strategy) {
+		case "fixed-window":
+		case "sliding-window-counter":
+			return { cost, window };
+		case "sliding-window":
+			return { cost, id };
+		default:
+			return { cost };
+	}
+}
+
+/**
+ * Run one key against one rule: limit() consumes, peek() only checks,
+ * and reserve() (token bucket only) consumes even into debt. A banned
+ * key is rejected with its ban, and the rule doesn't run.
+ */
+export async function runRule(
+	redis: Redis,
+	clock: Clock,
+	script: Script,
+	rule: RateLimitRule,
+	keys: StrategyKeys,
+	cost: number,
+	mode: keyof typeof MODES,
+): Promise<RateLimitResult> {
+	const id = requestId();
+	const scriptKeys = [keys.state, keys.override, keys.tiers];
+	if (keys.ban) scriptKeys.push(keys.ban);
+	// Returns [allowed (0/1), remaining, retryMs, resetAt, window start,
+	// effective limit, banned (0/1)]
+	const [allowed, remaining, retryMs, resetAt, window, effectiveLimit, banned] =
+		(await evalScript(
+			redis,
+			script,
+			scriptKeys.length,
+			...scriptKeys,
+			MODES[mode],
+			cost.toString(),
+			clock.scriptArg(),
+			id,
+			...ruleArgs(rule),
+		)) as [number, number, number, number, number, number, number];
+
+	if (banned === 1) return bannedResult(resetAt, retryMs, ruleLimit(rule));
+
+	return {
+		allowed: allowed === 1,
+		remaining,
+		limit: effectiveLimit,
+		retryAfter: retryMs / 1000,
+		resetAt,
+		receipt:
+			allowed === 1 && mode !== "peek"
+				? encodeReceipt(ruleReceipt(rule, cost, window, id))
+				: undefined,
+	};
+}
@@ -0,0 +1,48 @@
+import type { Redis } from "ioredis";
+import type { Clock } from "../clock.js";
+import type { RateLimitRule } from "../index.js";
+import slidingWindowCounterLua from "../scripts/rules/sliding-window-counter.lua";
+import { windowKey } from "./fixed-window.js";
+import { effectiveParam } from "./params.js";
+import { runRefund } from "./refund.js";
+import { runRule, singleScript } from "./rule.js";
+import type { RateLimitStrategy, StrategyKeys } from "./types.js";
+
+const SCRIPT = singleScript(slidingWindowCounterLua);
+
+export function createSlidingWindowCounter(
+	redis: Redis,
+	clock: Clock,
+	limit: number,
+	windowSec: number,
+): RateLimitStrategy {
+	const rule: RateLimitRule = {
+		strategy: "sliding-window-counter",
+		limit,
+		window: windowSec,
+	};
+
+	return {
+		limit(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "limit");
+		},
+		peek(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "peek");
+		},
+		async reset(keys: StrategyKeys) {
+			// Both counters feed the estimate, so both have to go. The
+			// window may be overridden for this key.
+			const window = await effectiveParam(redis, keys, "window", windowSec);
+			const nowMs = await clock.now();
+			await redis.del(
+				windowKey(keys.state, window, nowMs),
+				windowKey(keys.state, window, nowMs - window * 1000),
+			);
+		},
+		refund(keys: StrategyKeys, amount: number, receipt) {
+			// Only the window the units were counted in is decremented;
+			// once it's the previous window, that lowers its weighted share.
+			return runRefund(redis, clock, rule, keys, amount, receipt);
+		},
+	};
+}
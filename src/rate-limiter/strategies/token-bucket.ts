@@ -1,58 +1,45 @@
-import { readFileSync } from "node:fs";
-import { dirname, join } from "node:path";
-import { fileURLToPath } from "node:url";
 import type { Redis } from "ioredis";
-import type { RateLimitResult } from "../index.js";
-import type { RateLimitStrategy } from "./types.js";
+import type { Clock } from "../clock.js";
+import type { RateLimitRule } from "../index.js";
+import bucketLua from "../scripts/bucket.lua";
+import tokenBucketLua from "../scripts/rules/token-bucket.lua";
+import { runRefund } from "./refund.js";
+import { runRule, singleScript } from "./rule.js";
+import type { RateLimitStrategy, StrategyKeys } from "./types.js";
 
-const __dirname = dirname(fileURLToPath(import.meta.url));
-const SCRIPT = readFileSync(
-	join(__dirname, "..", "scripts", "token-bucket.lua"),
-	"utf-8",
-);
+const SCRIPT = singleScript(bucketLua, tokenBucketLua);
 
 export function createTokenBucket(
 	redis: Redis,
+	clock: Clock,
 	capacity: number,
 	refillRate: number,
+	initialTokens?: number,
+	refillInterval?: number,
 ): RateLimitStrategy {
-	/**
-	 * Call the Lua script with a consume flag.
-	 * consume=true for limit(), consume=false for peek().
-	 */
-	async function run(key: string, consume: boolean): Promise<RateLimitResult> {
-		const nowMs = Date.now();
-
-		const [allowed, remaining] = (await redis.eval(
-			SCRIPT,
-			1,
-			key,
-			capacity.toString(),
-			refillRate.toString(),
-			nowMs.toString(),
-			consume ? "1" : "0",
-		)) as [number, number];
-
-		// retryAfter: if rejected, the time until one token refills
-		const retryAfter = allowed === 1 ? 0 : Math.ceil(1 / refillRate);
-
-		return {
-			allowed: allowed === 1,
-			remaining,
-			limit: capacity,
-			retryAfter,
-		};
-	}
+	const rule: RateLimitRule = {
+		strategy: "token-bucket",
+		capacity,
+		refillRate,
+		initialTokens,
+		refillInterval,
+	};
 
 	return {
-		limit(key: string) {
-			return run(key, true);
+		limit(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "limit");
+		},
+		peek(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "peek");
+		},
+		reserve(keys: StrategyKeys, cost: number) {
+			return runRule(redis, clock, SCRIPT, rule, keys, cost, "reserve");
 		},
-		peek(key: string) {
-			return run(key, false);
+		async reset(keys: StrategyKeys) {
+			await redis.del(keys.state);
 		},
-		async reset(key: string) {
-			await redis.del(key);
+		refund(keys: StrategyKeys, amount: number, receipt) {
+			return runRefund(redis, clock, rule, keys, amount, receipt);
 		},
 	};
 }
@@ -1,11 +1,47 @@
 import type { RateLimitResult } from "../index.js";
+import type { Receipt } from "./receipt.js";
+
+/**
+ * The Redis keys one call works with.
+ */
+export interface StrategyKeys {
+	/** Where the strategy keeps its state (e.g. "rl:user:42"). */
+	state: string;
+	/** The key's parameter override hash (e.g. "rl|override:user:42"). */
+	override: string;
+	/** The limiter's tiers hash (e.g. "rl|tiers"). */
+	tiers: string;
+	/**
+	 * With a penalty policy, the key's ban (e.g. "rl|ban:user:42"). The
+	 * scripts reject the call while it holds one, without running the
+	 * strategy.
+	 */
+	ban?: string;
+}
 
 /**
  * Internal interface that each rate limiting strategy implements.
  * The RateLimiter class delegates to whichever strategy was configured.
  */
 export interface RateLimitStrategy {
-	limit(key: string): Promise<RateLimitResult>;
-	peek(key: string): Promise<RateLimitResult>;
-	reset(key: string): Promise<void>;
+	/** Consume `cost` units if they are all available, otherwise none. */
+	limit(keys: StrategyKeys, cost: number): Promise<RateLimitResult>;
+	/** Report whether `cost` units are available without consuming them. */
+	peek(keys: StrategyKeys, cost: number): Promise<RateLimitResult>;
+	/**
+	 * Token bucket only: consume `cost` tokens even if the bucket doesn't
+	 * hold them yet, leaving it in debt. `retryAfter` is how long until
+	 * they're there. Rejected only if `cost` exceeds the capacity.
+	 */
+	reserve?(keys: StrategyKeys, cost: number): Promise<RateLimitResult>;
+	reset(keys: StrategyKeys): Promise<void>;
+	/**
+	 * Give back `amount` units — those named by `receipt` when there is
+	 * one, otherwise the most recently consumed.
+	 */
+	refund(
+		keys: StrategyKeys,
+		amount: number,
+		receipt: Receipt | undefined,
+	): Promise<void>;
 }
@@ -0,0 +1,40 @@
+/**
+ * A bounded in-memory map that evicts the least recently used entry
+ * once it holds more than `maxSize` entries.
+ *
+ * Relies on Map preserving insertion order: every read or write moves
+ * the key to the end, so the first key is always the stalest.
+ */
+export class LruCache<K, V> {
+	private entries = new Map<K, V>();
+	private maxSize: number;
+
+	constructor(maxSize: number) {
+		this.maxSize = maxSize;
+	}
+
+	get(key: K): V | undefined {
+		const value = this.entries.get(key);
+		if (value === undefined) return undefined;
+		this.entries.delete(key);
+		this.entries.set(key, value);
+		return value;
+	}
+
+	set(key: K, value: V): void {
+		this.entries.delete(key);
+		this.entries.set(key, value);
+		if (this.entries.size > this.maxSize) {
+			const oldest = this.entries.keys().next().value as K;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: K): boolean {
+		return this.entries.delete(key);
+	}
+
+	get size(): number {
+		return this.entries.size;
+	}
+}
@@ -0,0 +1,52 @@
+import { createHash } from "node:crypto";
+import type { Redis } from "ioredis";
+
+/**
+ * A Lua script, ready to run by its SHA1. Every module that needs Lua
+ * defines its scripts with `defineScript` and runs them with
+ * `evalScript`.
+ */
+export interface Script {
+	readonly source: string;
+	readonly sha: string;
+}
+
+/**
+ * Define a script from Lua sources, joined in order — shared preludes
+ * first, then the script itself. Import `.lua` files as text: the build
+ * embeds them, so there's nothing to read from disk at runtime.
+ *
+ * @example
+ * import PARAMS from "./scripts/params.lua";
+ * import GCRA from "./scripts/rules/gcra.lua";
+ * const SCRIPT = defineScript(PARAMS, GCRA);
+ */
+export function defineScript(...sources: string[]): Script {
+	const source = sources.join("\n");
+	return { source, sha: createHash("sha1").update(source).digest("hex") };
+}
+
+/**
+ * Run a script with EVALSHA, so only its SHA goes over the wire. The
+ * first run on a server — or after a restart or SCRIPT FLUSH — fails
+ * with NOSCRIPT; we then send it in full with EVAL, which also caches
+ * it for next time.
+ *
+ * @example
+ * evalScript(redis, SCRIPT, 1, "rl:user:42", "100")
+ */
+export async function evalScript(
+	redis: Redis,
+	script: Script,
+	numKeys: number,
+	...args: (string | number)[]
+): Promise<unknown> {
+	try {
+		return await redis.evalsha(script.sha, numKeys, ...args);
+	} catch (err) {
+		if (!(err instanceof Error) || !err.message.startsWith("NOSCRIPT")) {
+			throw err;
+		}
+		return redis.eval(script.source, numKeys, ...args);
+	}
+}
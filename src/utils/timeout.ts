@@ -0,0 +1,66 @@
+/**
+ * Race a promise against a timer. If `ms` passes first, reject with
+ * whatever `onTimeout` returns. The timer is always cleared, so a
+ * settled call never keeps the process alive.
+ *
+ * @example
+ * withTimeout(redis.get(key), 50, () => new Error("too slow"))
+ */
+export function withTimeout<T>(
+	promise: Promise<T>,
+	ms: number,
+	onTimeout: () => Error,
+): Promise<T> {
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<never>((_, reject) => {
+		timer = setTimeout(() => reject(onTimeout()), ms);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Resolve after `ms`. If `signal` aborts first, clear the timer and
+ * reject with whatever `onAbort` returns.
+ */
+export function sleep(
+	ms: number,
+	signal: AbortSignal | undefined,
+	onAbort: () => Error,
+): Promise<void> {
+	if (signal?.aborted) return Promise.reject(onAbort());
+
+	return new Promise((resolve, reject) => {
+		const abort = () => {
+			clearTimeout(timer);
+			reject(onAbort());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", abort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", abort, { once: true });
+	});
+}
+
+/**
+ * Settle with `promise`, unless `signal` aborts first — then reject
+ * with whatever `onAbort` returns. The abort listener is always
+ * removed, so long-lived signals don't collect them.
+ */
+export function withSignal<T>(
+	promise: Promise<T>,
+	signal: AbortSignal | undefined,
+	onAbort: () => Error,
+): Promise<T> {
+	if (!signal) return promise;
+	if (signal.aborted) return Promise.reject(onAbort());
+
+	let listener: (() => void) | undefined;
+	const aborted = new Promise<never>((_, reject) => {
+		listener = () => reject(onAbort());
+		signal.addEventListener("abort", listener, { once: true });
+	});
+	return Promise.race([promise, aborted]).finally(() => {
+		if (listener) signal.removeEventListener("abort", listener);
+	});
+}
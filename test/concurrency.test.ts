@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+	ConcurrencyLimiter,
+	type ConcurrencyLimiterConfig,
+} from "../src/rate-limiter/concurrency.js";
+import { useRedis } from "./setup.js";
+
+describe("ConcurrencyLimiter", () => {
+	const ctx = useRedis();
+
+	function createLimiter(
+		limit: number,
+		options: Partial<ConcurrencyLimiterConfig> = {},
+	) {
+		return new ConcurrencyLimiter({ redis: ctx.redis, limit, ...options });
+	}
+
+	it("hands out leases up to the limit", async () => {
+		const limiter = createLimiter(2);
+
+		const r1 = await limiter.acquire("tenant:7");
+		expect(r1.allowed).toBe(true);
+		expect(r1.remaining).toBe(1);
+		expect(r1.limit).toBe(2);
+		expect(r1.lease).toBeDefined();
+
+		const r2 = await limiter.acquire("tenant:7");
+		expect(r2.allowed).toBe(true);
+		expect(r2.remaining).toBe(0);
+
+		const r3 = await limiter.acquire("tenant:7");
+		expect(r3.allowed).toBe(false);
+		expect(r3.remaining).toBe(0);
+		expect(r3.lease).toBeUndefined();
+	});
+
+	it("frees the slot on release", async () => {
+		const limiter = createLimiter(1);
+
+		const { lease } = await limiter.acquire("tenant:7");
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(false);
+
+		expect(await lease?.release()).toBe(true);
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(true);
+
+		// Releasing twice is harmless
+		expect(await lease?.release()).toBe(false);
+	});
+
+	it("keeps keys independent", async () => {
+		const limiter = createLimiter(1);
+
+		await limiter.acquire("tenant:7");
+		expect((await limiter.acquire("tenant:8")).allowed).toBe(true);
+	});
+
+	it("expires leases of crashed holders", async () => {
+		let now = 1708617600_000;
+		const limiter = createLimiter(1, { leaseTtl: 30, clock: () => now });
+
+		const { lease } = await limiter.acquire("tenant:7");
+		expect(lease?.expiresAt).toBe(now + 30_000);
+
+		const rejected = await limiter.acquire("tenant:7");
+		expect(rejected.allowed).toBe(false);
+		expect(rejected.retryAfter).toBe(30);
+
+		// The holder never releases; once its lease runs out the slot is free.
+		now += 30_000;
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(true);
+	});
+
+	it("extends a live lease", async () => {
+		let now = 1708617600_000;
+		const limiter = createLimiter(1, { leaseTtl: 30, clock: () => now });
+
+		const { lease } = await limiter.acquire("tenant:7");
+
+		now += 20_000;
+		expect(await lease?.extend()).toBe(true);
+		expect(lease?.expiresAt).toBe(now + 30_000);
+
+		now += 20_000;
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(false);
+
+		expect(await lease?.extend(60)).toBe(true);
+		expect(lease?.expiresAt).toBe(now + 60_000);
+	});
+
+	it("refuses to extend a lease that already expired", async () => {
+		let now = 1708617600_000;
+		const limiter = createLimiter(1, { leaseTtl: 30, clock: () => now });
+
+		const { lease } = await limiter.acquire("tenant:7");
+
+		now += 31_000;
+		expect(await lease?.extend()).toBe(false);
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(true);
+	});
+
+	it("peek reports free slots without taking one", async () => {
+		const limiter = createLimiter(3);
+		await limiter.acquire("tenant:7");
+
+		const p = await limiter.peek("tenant:7");
+		expect(p.allowed).toBe(true);
+		expect(p.remaining).toBe(2);
+		expect(p.lease).toBeUndefined();
+
+		expect((await limiter.peek("tenant:7")).remaining).toBe(2);
+	});
+
+	it("reset drops every lease", async () => {
+		const limiter = createLimiter(1);
+
+		const { lease } = await limiter.acquire("tenant:7");
+		await limiter.reset("tenant:7");
+
+		expect((await limiter.acquire("tenant:7")).allowed).toBe(true);
+		expect(await lease?.extend()).toBe(false);
+	});
+
+	it("uses the cl: prefix by default", async () => {
+		const limiter = createLimiter(1);
+		await limiter.acquire("tenant:7");
+
+		expect(await ctx.redis.exists("cl:tenant:7")).toBe(1);
+	});
+});
@@ -44,22 +44,47 @@ describe("Leaderboard", () => {
 			const lb = createBoard();
 			await lb.upsert("alice", 100);
 
-			const newScore = await lb.increment("alice", 50);
-			expect(newScore).toBe(150);
+			const { score } = await lb.increment("alice", 50);
+			expect(score).toBe(150);
 		});
 
 		it("creates the member if they don't exist", async () => {
 			const lb = createBoard();
-			const newScore = await lb.increment("alice", 50);
-			expect(newScore).toBe(50);
+			const { score } = await lb.increment("alice", 50);
+			expect(score).toBe(50);
 			expect(await lb.count()).toBe(1);
 		});
 
 		it("supports negative increments", async () => {
 			const lb = createBoard();
 			await lb.upsert("alice", 100);
-			const newScore = await lb.increment("alice", -30);
-			expect(newScore).toBe(70);
+			const { score } = await lb.increment("alice", -30);
+			expect(score).toBe(70);
+		});
+
+		it("reports the score and rank before and after", async () => {
+			for (const rankingMode of ["ordinal", "standard", "dense"] as const) {
+				const lb = new Leaderboard({
+					redis: ctx.redis,
+					key: `increments:${rankingMode}`,
+					rankingMode,
+				});
+				await lb.upsert("alice", 100);
+				await lb.upsert("bob", 80);
+
+				expect(await lb.increment("bob", 30)).toEqual({
+					score: 110,
+					previousScore: 80,
+					rank: 0,
+					previousRank: 1,
+				});
+				expect(await lb.increment("carol", 5)).toEqual({
+					score: 5,
+					previousScore: null,
+					rank: 2,
+					previousRank: null,
+				});
+			}
 		});
 	});
 
@@ -209,5 +234,791 @@ describe("Leaderboard", () => {
 			await seed(lb);
 			expect(await lb.range(5000, 6000)).toEqual([]);
 		});
+
+		it("pages through matches with offset and limit", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			// Low to high: dave, charlie, bob, alice, eve
+			const page = await lb.range(0, 5000, { offset: 1, limit: 2 });
+			expect(page.map((r) => [r.member, r.rank])).toEqual([
+				["charlie", 3],
+				["bob", 2],
+			]);
+		});
+
+		it("supports exclusive bounds", async () => {
+			const lb = createBoard("golf", "lowToHigh");
+			await seed(lb);
+
+			const results = await lb.range(750, 2850, {
+				exclusiveMin: true,
+				exclusiveMax: true,
+			});
+			expect(results.map((r) => [r.member, r.rank])).toEqual([
+				["charlie", 1],
+				["bob", 2],
+			]);
+		});
+	});
+
+	describe("periodic", () => {
+		// Monday 2030-10-14, 10:00 UTC — in the future, so that Redis,
+		// which expires keys by its own clock, keeps the boards.
+		const monday = Date.UTC(2030, 9, 14, 10);
+		const day = 86_400_000;
+
+		function createPeriodic(now: () => number, timezone?: string) {
+			return new Leaderboard({
+				redis: ctx.redis,
+				key: "scores",
+				periodic: { periods: ["daily", "weekly", "monthly"], timezone },
+				clock: now,
+			});
+		}
+
+		it("increments every current period along with all-time", async () => {
+			const lb = createPeriodic(() => monday);
+
+			expect((await lb.increment("alice", 10)).score).toBe(10);
+			expect((await lb.increment("alice", 5)).score).toBe(15);
+
+			expect((await lb.rank("alice"))?.score).toBe(15);
+			for (const name of ["daily", "weekly", "monthly"]) {
+				expect((await lb.period(name).rank("alice"))?.score).toBe(15);
+			}
+		});
+
+		it("starts each period's board from scratch when it rotates", async () => {
+			let now = monday;
+			const lb = createPeriodic(() => now);
+			await lb.increment("alice", 10);
+
+			now += day;
+			await lb.increment("alice", 3);
+
+			expect((await lb.rank("alice"))?.score).toBe(13);
+			expect((await lb.period("daily").rank("alice"))?.score).toBe(3);
+			expect((await lb.period("weekly").rank("alice"))?.score).toBe(13);
+			// Yesterday's board, by ID or by a time within it
+			expect((await lb.period("daily", "2030-10-14").top(1))[0].score).toBe(10);
+			expect((await lb.period("daily", monday).top(1))[0].score).toBe(10);
+		});
+
+		it("names occurrences after where they start", () => {
+			const lb = createPeriodic(() => monday + 2 * day);
+
+			expect(lb.periodId("daily")).toBe("2030-10-16");
+			expect(lb.periodId("weekly")).toBe("2030-10-14");
+			expect(lb.periodId("monthly")).toBe("2030-10");
+		});
+
+		it("draws period boundaries in the configured timezone", () => {
+			// 02:00 UTC on Monday is still Sunday evening in New York.
+			const lb = createPeriodic(
+				() => Date.UTC(2030, 9, 14, 2),
+				"America/New_York",
+			);
+
+			expect(lb.periodId("daily")).toBe("2030-10-13");
+			expect(lb.periodId("weekly")).toBe("2030-10-07");
+		});
+
+		it("expires a period's board once `keep` periods have passed", async () => {
+			const lb = createPeriodic(() => monday);
+			await lb.increment("alice", 1);
+
+			// Kept through tomorrow, gone at midnight after
+			const expiresAt = await ctx.redis.pexpiretime(
+				"lb:scores:daily:2030-10-14",
+			);
+			expect(expiresAt).toBe(Date.UTC(2030, 9, 16));
+			expect(await ctx.redis.ttl("lb:scores")).toBe(-1);
+		});
+
+		it("supports custom periods", async () => {
+			const lb = new Leaderboard({
+				redis: ctx.redis,
+				key: "scores",
+				periodic: { periods: [{ name: "hourly", duration: 3600 }] },
+				clock: () => monday + 90_000,
+			});
+			await lb.upsert("alice", 42);
+
+			expect(lb.periodId("hourly")).toBe(`${monday / 1000}`);
+			expect((await lb.period("hourly").rank("alice"))?.score).toBe(42);
+		});
+
+		it("removes members from the current boards", async () => {
+			const lb = createPeriodic(() => monday);
+			await lb.increment("alice", 10);
+
+			expect(await lb.remove("alice")).toBe(true);
+			expect(await lb.count()).toBe(0);
+			expect(await lb.period("weekly").count()).toBe(0);
+		});
+
+		it("rejects a period that isn't configured", () => {
+			const lb = createPeriodic(() => monday);
+			expect(() => lb.period("yearly")).toThrow('no "yearly" period');
+		});
+	});
+
+	describe("tieBreaker", () => {
+		function createTied(
+			tieBreaker: "earliest" | "latest",
+			sortOrder?: "highToLow" | "lowToHigh",
+		) {
+			let now = Date.UTC(2026, 9, 19);
+			const lb = new Leaderboard({
+				redis: ctx.redis,
+				key: "tied",
+				sortOrder,
+				tieBreaker,
+				clock: () => now,
+			});
+			// Each write happens a second after the last.
+			const tick = () => {
+				now += 1000;
+			};
+			return { lb, tick };
+		}
+
+		it("ranks whoever reached the score first higher", async () => {
+			const { lb, tick } = createTied("earliest");
+			await lb.upsert("zoe", 100);
+			tick();
+			await lb.upsert("adam", 100);
+			tick();
+			await lb.upsert("bob", 200);
+
+			expect(await lb.top(3)).toEqual([
+				{ member: "bob", score: 200, rank: 0 },
+				{ member: "zoe", score: 100, rank: 1 },
+				{ member: "adam", score: 100, rank: 2 },
+			]);
+			expect(await lb.rank("adam")).toEqual({
+				member: "adam",
+				score: 100,
+				rank: 2,
+			});
+		});
+
+		it("ranks whoever reached the score last higher", async () => {
+			const { lb, tick } = createTied("latest");
+			await lb.upsert("adam", 100);
+			tick();
+			await lb.upsert("zoe", 100);
+
+			const top = await lb.top(2);
+			expect(top.map((e) => e.member)).toEqual(["zoe", "adam"]);
+		});
+
+		it("applies to low-to-high boards", async () => {
+			const { lb, tick } = createTied("earliest", "lowToHigh");
+			await lb.upsert("zoe", 42);
+			tick();
+			await lb.upsert("adam", 42);
+
+			const top = await lb.top(2);
+			expect(top.map((e) => e.member)).toEqual(["zoe", "adam"]);
+		});
+
+		it("counts the time an increment reached the score", async () => {
+			const { lb, tick } = createTied("earliest");
+			await lb.increment("adam", 50);
+			tick();
+			await lb.increment("zoe", 100);
+			tick();
+			expect((await lb.increment("adam", 50)).score).toBe(100);
+
+			const top = await lb.top(2);
+			expect(top).toEqual([
+				{ member: "zoe", score: 100, rank: 0 },
+				{ member: "adam", score: 100, rank: 1 },
+			]);
+		});
+
+		it("keeps the original time when the same score is re-submitted", async () => {
+			const { lb, tick } = createTied("earliest");
+			await lb.upsert("zoe", 100);
+			tick();
+			await lb.upsert("adam", 100);
+			tick();
+			await lb.upsert("zoe", 100);
+
+			expect((await lb.rank("zoe"))?.rank).toBe(0);
+		});
+
+		it("respects it in range and around", async () => {
+			const { lb, tick } = createTied("earliest");
+			for (const member of ["c", "b", "a"]) {
+				await lb.upsert(member, 100);
+				tick();
+			}
+			await lb.upsert("d", 101);
+
+			const inRange = await lb.range(100, 100);
+			expect(inRange.map((e) => [e.member, e.score, e.rank])).toEqual([
+				["a", 100, 3],
+				["b", 100, 2],
+				["c", 100, 1],
+			]);
+			const around = await lb.around("b", 1);
+			expect(around.map((e) => e.member)).toEqual(["c", "b", "a"]);
+		});
+
+		it("rejects non-integer scores", async () => {
+			const { lb } = createTied("earliest");
+			await expect(lb.upsert("alice", 42.5)).rejects.toThrow(RangeError);
+		});
+	});
+
+	describe("rankingMode", () => {
+		function createRanked(
+			rankingMode: "standard" | "dense",
+			sortOrder?: "highToLow" | "lowToHigh",
+		) {
+			return new Leaderboard({
+				redis: ctx.redis,
+				key: "ranked",
+				rankingMode,
+				sortOrder,
+			});
+		}
+
+		/** eve 3100, alice and bob 2850, charlie 1900, dave 1900, frank 750 */
+		async function seedTies(lb: Leaderboard) {
+			await lb.upsert("eve", 3100);
+			await lb.upsert("alice", 2850);
+			await lb.upsert("bob", 2850);
+			await lb.upsert("charlie", 1900);
+			await lb.upsert("dave", 1900);
+			await lb.upsert("frank", 750);
+		}
+
+		const ranks = (entries: { member: string; rank: number }[]) =>
+			Object.fromEntries(entries.map((e) => [e.member, e.rank]));
+
+		it("gives ties standard competition ranks", async () => {
+			const lb = createRanked("standard");
+			await seedTies(lb);
+
+			expect(ranks(await lb.top(6))).toEqual({
+				eve: 0,
+				alice: 1,
+				bob: 1,
+				charlie: 3,
+				dave: 3,
+				frank: 5,
+			});
+			expect((await lb.rank("dave"))?.rank).toBe(3);
+		});
+
+		it("gives ties dense ranks", async () => {
+			const lb = createRanked("dense");
+			await seedTies(lb);
+
+			expect(ranks(await lb.top(6))).toEqual({
+				eve: 0,
+				alice: 1,
+				bob: 1,
+				charlie: 2,
+				dave: 2,
+				frank: 3,
+			});
+			expect((await lb.rank("frank"))?.rank).toBe(3);
+		});
+
+		it("ranks a neighborhood that starts mid-tie", async () => {
+			const lb = createRanked("standard");
+			await seedTies(lb);
+
+			// Equal scores list in reverse member order: eve, bob, alice,
+			// dave, charlie — so this starts at alice, who shares rank 1.
+			const around = await lb.around("dave", 1);
+			expect(ranks(around)).toEqual({ alice: 1, dave: 3, charlie: 3 });
+		});
+
+		it("ranks a score range", async () => {
+			const lb = createRanked("dense");
+			await seedTies(lb);
+
+			expect(ranks(await lb.range(1000, 2900))).toEqual({
+				alice: 1,
+				bob: 1,
+				charlie: 2,
+				dave: 2,
+			});
+		});
+
+		it("keeps dense ranks right as scores move and members leave", async () => {
+			const lb = createRanked("dense");
+			await seedTies(lb);
+
+			// 2850 is still held by bob, 1900 only by dave
+			await lb.increment("alice", 1000);
+			await lb.remove("charlie");
+			expect((await lb.rank("frank"))?.rank).toBe(4);
+
+			await lb.remove("dave");
+			expect((await lb.rank("frank"))?.rank).toBe(3);
+			expect(await ctx.redis.zcard("lb|distinct:ranked")).toBe(4);
+		});
+
+		it("ranks low-to-high boards", async () => {
+			const lb = createRanked("standard", "lowToHigh");
+			await seedTies(lb);
+
+			expect(ranks(await lb.top(3))).toEqual({
+				frank: 0,
+				charlie: 1,
+				dave: 1,
+			});
+		});
+
+		it("works with a tie-breaker", async () => {
+			let now = Date.UTC(2026, 9, 19);
+			const lb = new Leaderboard({
+				redis: ctx.redis,
+				key: "ranked",
+				rankingMode: "standard",
+				tieBreaker: "earliest",
+				// A second between writes
+				clock: () => {
+					now += 1000;
+					return now;
+				},
+			});
+			await seedTies(lb);
+
+			// Tied members still share a rank, listed first-come first
+			const top = await lb.top(3);
+			expect(top.map((e) => [e.member, e.rank])).toEqual([
+				["eve", 0],
+				["alice", 1],
+				["bob", 1],
+			]);
+			expect((await lb.rank("charlie"))?.rank).toBe(3);
+		});
+	});
+
+	describe("metadata", () => {
+		interface Profile {
+			name: string;
+			country: string;
+		}
+
+		function createProfiles(rankingMode?: "ordinal" | "dense") {
+			return new Leaderboard<Profile>({
+				redis: ctx.redis,
+				key: "profiles",
+				rankingMode,
+			});
+		}
+
+		async function seedProfiles(lb: Leaderboard<Profile>) {
+			await lb.upsert("alice", 2850, { name: "Alice", country: "NZ" });
+			await lb.upsert("bob", 2340, { name: "Bob", country: "CA" });
+			await lb.upsert("charlie", 1900);
+		}
+
+		it("returns it with top, around, range and rank", async () => {
+			const lb = createProfiles();
+			await seedProfiles(lb);
+
+			const alice = { name: "Alice", country: "NZ" };
+			const bob = { name: "Bob", country: "CA" };
+			expect(await lb.top(2)).toEqual([
+				{ member: "alice", score: 2850, rank: 0, meta: alice },
+				{ member: "bob", score: 2340, rank: 1, meta: bob },
+			]);
+			expect((await lb.around("bob", 1)).map((e) => e.meta)).toEqual([
+				alice,
+				bob,
+				undefined,
+			]);
+			expect((await lb.range(2000, 3000)).map((e) => e.meta)).toEqual([
+				bob,
+				alice,
+			]);
+			expect((await lb.rank("bob"))?.meta).toEqual(bob);
+			expect((await lb.rank("charlie"))?.meta).toBeUndefined();
+		});
+
+		it("replaces it with setMeta or upsert, and keeps it otherwise", async () => {
+			const lb = createProfiles();
+			await seedProfiles(lb);
+
+			await lb.setMeta("charlie", { name: "Charlie", country: "IE" });
+			await lb.upsert("alice", 2900, { name: "Alicia", country: "NZ" });
+			await lb.upsert("bob", 3000);
+			await lb.increment("bob", 10);
+
+			const top = await lb.top(3);
+			expect(top.map((e) => [e.member, e.meta?.name])).toEqual([
+				["bob", "Bob"],
+				["alice", "Alicia"],
+				["charlie", "Charlie"],
+			]);
+		});
+
+		it("is removed along with the member", async () => {
+			for (const rankingMode of ["ordinal", "dense"] as const) {
+				const lb = createProfiles(rankingMode);
+				await seedProfiles(lb);
+
+				expect(await lb.remove("alice")).toBe(true);
+				await lb.upsert("alice", 100);
+				expect((await lb.rank("alice"))?.meta).toBeUndefined();
+				await lb.remove("alice");
+				await lb.remove("bob");
+				await lb.remove("charlie");
+			}
+			expect(await ctx.redis.exists("lb|meta:profiles")).toBe(0);
+		});
+
+		it("keeps its hash and the distinct scores apart from other boards", async () => {
+			const lb = createProfiles("dense");
+			await seedProfiles(lb);
+
+			// Boards keyed like the companion keys don't touch them.
+			for (const key of ["profiles:meta", "profiles:distinct"]) {
+				const other = new Leaderboard({ redis: ctx.redis, key });
+				await other.upsert("mallory", 1);
+			}
+			expect((await lb.rank("bob"))?.meta).toEqual({
+				name: "Bob",
+				country: "CA",
+			});
+			expect((await lb.rank("charlie"))?.rank).toBe(2);
+		});
+
+		it("is shared by period boards", async () => {
+			const monday = Date.UTC(2030, 9, 14, 10);
+			const lb = new Leaderboard<Profile>({
+				redis: ctx.redis,
+				key: "profiles",
+				periodic: { periods: ["weekly"] },
+				clock: () => monday,
+			});
+			await lb.increment("alice", 10);
+			await lb.setMeta("alice", { name: "Alice", country: "NZ" });
+
+			const [entry] = await lb.period("weekly").top(1);
+			expect(entry.meta).toEqual({ name: "Alice", country: "NZ" });
+		});
+
+		it("outlives a removal while another board still holds the member", async () => {
+			let now = Date.UTC(2030, 9, 14, 10);
+			const lb = new Leaderboard<Profile>({
+				redis: ctx.redis,
+				key: "profiles",
+				periodic: { periods: ["weekly"] },
+				clock: () => now,
+			});
+			const alice = { name: "Alice", country: "NZ" };
+			const bob = { name: "Bob", country: "AU" };
+			await lb.upsert("alice", 10, alice);
+			await lb.upsert("bob", 20, bob);
+
+			// Off this week's board, still on the all-time board.
+			await lb.period("weekly").remove("bob");
+			expect((await lb.rank("bob"))?.meta).toEqual(bob);
+
+			// Off the all-time board, still on last week's.
+			now += 7 * 86_400_000;
+			await lb.remove("alice");
+			const lastWeek = lb.period("weekly", now - 7 * 86_400_000);
+			expect((await lastWeek.rank("alice"))?.meta).toEqual(alice);
+
+			// Off every board: the metadata goes too.
+			await lastWeek.remove("alice");
+			expect(await ctx.redis.hexists("lb|meta:profiles", "alice")).toBe(0);
+		});
+	});
+
+	describe("updatePolicy", () => {
+		function createBests(
+			updatePolicy: "keepHighest" | "keepLowest",
+			sortOrder?: "highToLow" | "lowToHigh",
+		) {
+			return new Leaderboard({
+				redis: ctx.redis,
+				key: "bests",
+				updatePolicy,
+				sortOrder,
+			});
+		}
+
+		it("reports the score and rank before and after", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			expect(await lb.upsert("dave", 3000)).toEqual({
+				score: 3000,
+				previousScore: 750,
+				rank: 1,
+				previousRank: 4,
+			});
+			expect(await lb.upsert("frank", 100)).toEqual({
+				score: 100,
+				previousScore: null,
+				rank: 5,
+				previousRank: null,
+			});
+		});
+
+		it("keeps the highest score", async () => {
+			const lb = createBests("keepHighest");
+			await seed(lb);
+
+			const worse = await lb.upsert("alice", 2000);
+			expect(worse).toEqual({
+				score: 2850,
+				previousScore: 2850,
+				rank: 1,
+				previousRank: 1,
+			});
+			const better = await lb.upsert("alice", 3200);
+			expect(better.score).toBe(3200);
+			expect(better.rank).toBe(0);
+		});
+
+		it("keeps the lowest score", async () => {
+			const lb = createBests("keepLowest", "lowToHigh");
+			await seed(lb);
+
+			expect((await lb.upsert("eve", 3500)).score).toBe(3100);
+			expect(await lb.upsert("eve", 500)).toEqual({
+				score: 500,
+				previousScore: 3100,
+				rank: 0,
+				previousRank: 4,
+			});
+		});
+
+		it("applies on each period's board separately", async () => {
+			let now = Date.UTC(2030, 9, 14, 10);
+			const lb = new Leaderboard({
+				redis: ctx.redis,
+				key: "bests",
+				updatePolicy: "keepHighest",
+				periodic: { periods: ["daily"] },
+				clock: () => now,
+			});
+
+			await lb.upsert("alice", 500);
+			now += 86_400_000;
+			expect((await lb.upsert("alice", 200)).score).toBe(500);
+			await lb.upsert("alice", 100);
+
+			expect((await lb.rank("alice"))?.score).toBe(500);
+			expect((await lb.period("daily").rank("alice"))?.score).toBe(200);
+		});
+
+		it("reports ranks by the ranking mode", async () => {
+			const lb = new Leaderboard({
+				redis: ctx.redis,
+				key: "bests",
+				rankingMode: "dense",
+				updatePolicy: "keepHighest",
+			});
+			await seed(lb);
+			await lb.upsert("frank", 2340);
+
+			expect(await lb.upsert("dave", 2340)).toEqual({
+				score: 2340,
+				previousScore: 750,
+				rank: 2,
+				previousRank: 4,
+			});
+		});
+	});
+
+	describe("percentiles", () => {
+		it("reports the share of the board a member beats", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			expect(await lb.percentile("eve")).toBe(80);
+			expect(await lb.percentile("bob")).toBe(40);
+			expect(await lb.percentile("dave")).toBe(0);
+			expect(await lb.percentile("nobody")).toBeNull();
+		});
+
+		it("respects lowToHigh sort order", async () => {
+			const lb = createBoard("golf", "lowToHigh");
+			await seed(lb);
+
+			expect(await lb.percentile("dave")).toBe(80);
+			expect(await lb.percentile("eve")).toBe(0);
+			expect((await lb.atPercentile(80))?.member).toBe("dave");
+		});
+
+		it("gives tied members the same percentile", async () => {
+			const lb = createBoard();
+			await seed(lb);
+			await lb.upsert("frank", 2340);
+
+			expect(await lb.percentile("frank")).toBe(await lb.percentile("bob"));
+		});
+
+		it("finds the entry at a percentile", async () => {
+			const lb = createBoard();
+			expect(await lb.atPercentile(50)).toBeNull();
+			await seed(lb);
+
+			expect(await lb.atPercentile(100)).toEqual({
+				member: "eve",
+				score: 3100,
+				rank: 0,
+			});
+			expect((await lb.atPercentile(80))?.member).toBe("eve");
+			expect((await lb.atPercentile(50))?.member).toBe("alice");
+			expect((await lb.atPercentile(40))?.member).toBe("bob");
+			expect((await lb.atPercentile(0))?.member).toBe("dave");
+			await expect(lb.atPercentile(101)).rejects.toThrow(RangeError);
+		});
+
+		it("counts members per score bucket, best bucket first", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			expect(
+				await lb.histogram([0, 1000, 2000, 3000, Number.POSITIVE_INFINITY]),
+			).toEqual([
+				{ min: 3000, max: Number.POSITIVE_INFINITY, count: 1 },
+				{ min: 2000, max: 3000, count: 2 },
+				{ min: 1000, max: 2000, count: 1 },
+				{ min: 0, max: 1000, count: 1 },
+			]);
+
+			const golf = createBoard("golf", "lowToHigh");
+			await seed(golf);
+			const buckets = await golf.histogram([
+				2340,
+				Number.NEGATIVE_INFINITY,
+				3000,
+			]);
+			expect(buckets).toEqual([
+				{ min: Number.NEGATIVE_INFINITY, max: 2340, count: 2 },
+				{ min: 2340, max: 3000, count: 2 },
+			]);
+			await expect(golf.histogram([0])).rejects.toThrow(RangeError);
+		});
+	});
+
+	describe("page", () => {
+		/** Walk the whole board, `limit` at a time, collecting the members. */
+		async function walk(lb: Leaderboard, limit: number) {
+			const members: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const page = await lb.page({ cursor, limit });
+				members.push(...page.entries.map((e) => e.member));
+				cursor = page.cursor ?? undefined;
+			} while (cursor);
+			return members;
+		}
+
+		it("walks the board in rank order", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			const first = await lb.page({ limit: 2 });
+			expect(first.total).toBe(5);
+			expect(first.entries.map((e) => [e.member, e.rank])).toEqual([
+				["eve", 0],
+				["alice", 1],
+			]);
+			expect(first.cursor).not.toBeNull();
+
+			expect(await walk(lb, 2)).toEqual([
+				"eve",
+				"alice",
+				"bob",
+				"charlie",
+				"dave",
+			]);
+		});
+
+		it("ends with a null cursor", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			const page = await lb.page({ limit: 5 });
+			expect(page.entries).toHaveLength(5);
+			expect(page.cursor).toBeNull();
+			expect(await lb.page({ limit: 10 })).toMatchObject({ total: 5 });
+		});
+
+		it("doesn't skip members when the board shifts between pages", async () => {
+			const lb = createBoard();
+			await seed(lb);
+
+			const first = await lb.page({ limit: 2 });
+			// A member that ranked ahead of the cursor leaves...
+			await lb.remove("eve");
+			const second = await lb.page({ cursor: first.cursor ?? "", limit: 2 });
+			expect(second.entries.map((e) => [e.member, e.rank])).toEqual([
+				["bob", 1],
+				["charlie", 2],
+			]);
+		});
+
+		it("picks up where the cursor's member was if it moved", async () => {
+			const lb = createBoard("ties");
+			for (const member of ["a", "b", "c", "d"]) {
+				await lb.upsert(member, 10);
+			}
+
+			// Ties run d, c, b, a on a high-to-low board
+			const first = await lb.page({ limit: 2 });
+			expect(first.entries.map((e) => e.member)).toEqual(["d", "c"]);
+			await lb.upsert("c", 100);
+			const second = await lb.page({ cursor: first.cursor ?? "", limit: 2 });
+			expect(second.entries.map((e) => e.member)).toEqual(["b", "a"]);
+		});
+
+		it("finds a moved cursor's place among ties on low-to-high boards", async () => {
+			const lb = createBoard("ties-golf", "lowToHigh");
+			await lb.upsert("first", 5);
+			for (const member of ["a", "b", "c", "d", "e"]) {
+				await lb.upsert(member, 10);
+			}
+			await lb.upsert("last", 20);
+
+			const first = await lb.page({ limit: 3 });
+			expect(first.entries.map((e) => e.member)).toEqual(["first", "a", "b"]);
+			await lb.remove("b");
+			const second = await lb.page({ cursor: first.cursor ?? "", limit: 3 });
+			expect(second.entries.map((e) => [e.member, e.rank])).toEqual([
+				["c", 2],
+				["d", 3],
+				["e", 4],
+			]);
+		});
+
+		it("respects lowToHigh sort order", async () => {
+			const lb = createBoard("golf", "lowToHigh");
+			await seed(lb);
+
+			expect(await walk(lb, 3)).toEqual([
+				"dave",
+				"charlie",
+				"bob",
+				"alice",
+				"eve",
+			]);
+		});
+
+		it("rejects bad cursors and limits", async () => {
+			const lb = createBoard();
+			await expect(lb.page({ limit: 0 })).rejects.toThrow(RangeError);
+			await expect(lb.page({ cursor: "nope", limit: 2 })).rejects.toThrow(
+				RangeError,
+			);
+		});
 	});
 });
@@ -0,0 +1,216 @@
+import { type RequestListener, type Server, createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, describe, expect, it } from "vitest";
+import { RateLimiter } from "../src/rate-limiter/index.js";
+import {
+	type FastifyReplyLike,
+	expressRateLimit,
+	fastifyRateLimit,
+	httpRateLimit,
+} from "../src/rate-limiter/middleware.js";
+import { useRedis } from "./setup.js";
+
+describe("RateLimiter middleware", () => {
+	const ctx = useRedis();
+	let server: Server | undefined;
+
+	afterEach(async () => {
+		await new Promise((resolve) => server?.close(resolve) ?? resolve(null));
+		server = undefined;
+	});
+
+	function createLimiter(limit: number) {
+		return new RateLimiter({
+			redis: ctx.redis,
+			strategy: "fixed-window",
+			limit,
+			window: 60,
+		});
+	}
+
+	/** Start a local server and return its base URL. */
+	async function listen(listener: RequestListener) {
+		server = createServer(listener);
+		await new Promise<void>((resolve) => server?.listen(0, resolve));
+		const { port } = server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}`;
+	}
+
+	describe("httpRateLimit", () => {
+		it("runs the handler for allowed requests and sets headers", async () => {
+			const url = await listen(
+				httpRateLimit({ limiter: createLimiter(2) }, (_req, res) => {
+					res.end("ok");
+				}),
+			);
+
+			const res = await fetch(url);
+			expect(res.status).toBe(200);
+			expect(await res.text()).toBe("ok");
+			expect(res.headers.get("ratelimit-limit")).toBe("2");
+			expect(res.headers.get("ratelimit-remaining")).toBe("1");
+			expect(res.headers.get("ratelimit-policy")).toBe("2;w=60");
+		});
+
+		it("responds 429 with Retry-After once the limit is hit", async () => {
+			const url = await listen(
+				httpRateLimit({ limiter: createLimiter(1) }, (_req, res) => {
+					res.end("ok");
+				}),
+			);
+
+			await fetch(url);
+			const res = await fetch(url);
+			expect(res.status).toBe(429);
+			expect(await res.json()).toEqual({ error: "Too many requests" });
+			expect(Number(res.headers.get("retry-after"))).toBeGreaterThan(0);
+		});
+
+		it("keys by the extractor and honors skip", async () => {
+			const url = await listen(
+				httpRateLimit(
+					{
+						limiter: createLimiter(1),
+						key: (req) => String(req.headers["x-api-key"]),
+						skip: (req) => req.url === "/health",
+					},
+					(_req, res) => {
+						res.end("ok");
+					},
+				),
+			);
+
+			const headers = { "x-api-key": "abc" };
+			expect((await fetch(url, { headers })).status).toBe(200);
+			expect((await fetch(url, { headers })).status).toBe(429);
+			expect(
+				(await fetch(url, { headers: { "x-api-key": "xyz" } })).status,
+			).toBe(200);
+
+			const health = await fetch(`${url}/health`, { headers });
+			expect(health.status).toBe(200);
+			expect(health.headers.get("ratelimit-limit")).toBeNull();
+
+			expect(await ctx.redis.keys("rl:abc:*")).toHaveLength(1);
+		});
+
+		it("responds 500 when onRejected throws", async () => {
+			const url = await listen(
+				httpRateLimit(
+					{
+						limiter: createLimiter(1),
+						onRejected: async () => {
+							throw new Error("template missing");
+						},
+					},
+					(_req, res) => {
+						res.end("ok");
+					},
+				),
+			);
+
+			await fetch(url);
+			expect((await fetch(url)).status).toBe(500);
+		});
+	});
+
+	describe("expressRateLimit", () => {
+		it("calls next for allowed requests and uses a custom rejection", async () => {
+			const middleware = expressRateLimit({
+				limiter: createLimiter(1),
+				headers: false,
+				onRejected: (_req, res, result) => {
+					res.statusCode = 503;
+					res.end(`slow down: ${result.remaining}`);
+				},
+			});
+			const url = await listen((req, res) => {
+				middleware(req, res, () => res.end("next"));
+			});
+
+			const r1 = await fetch(url);
+			expect(await r1.text()).toBe("next");
+			expect(r1.headers.get("ratelimit-limit")).toBeNull();
+
+			const r2 = await fetch(url);
+			expect(r2.status).toBe(503);
+			expect(await r2.text()).toBe("slow down: 0");
+		});
+
+		it("passes limiter errors to next", async () => {
+			const middleware = expressRateLimit({
+				limiter: createLimiter(1),
+				cost: () => 0,
+			});
+			const url = await listen((req, res) => {
+				middleware(req, res, (err) => {
+					res.statusCode = err ? 500 : 200;
+					res.end();
+				});
+			});
+
+			expect((await fetch(url)).status).toBe(500);
+		});
+
+		it("passes onRejected errors to next", async () => {
+			const failure = new Error("template missing");
+			const middleware = expressRateLimit({
+				limiter: createLimiter(1),
+				onRejected: () => {
+					throw failure;
+				},
+			});
+			const errors: unknown[] = [];
+			const url = await listen((req, res) => {
+				middleware(req, res, (err) => {
+					if (err) errors.push(err);
+					res.statusCode = err ? 500 : 200;
+					res.end();
+				});
+			});
+
+			await fetch(url);
+			expect((await fetch(url)).status).toBe(500);
+			expect(errors).toEqual([failure]);
+		});
+	});
+
+	describe("fastifyRateLimit", () => {
+		/** A minimal stand-in for a Fastify reply. */
+		class Reply implements FastifyReplyLike {
+			headers: Record<string, string> = {};
+			statusCode = 200;
+			payload: unknown;
+
+			header(name: string, value: string) {
+				this.headers[name] = value;
+				return this;
+			}
+
+			code(statusCode: number) {
+				this.statusCode = statusCode;
+				return this;
+			}
+
+			send(payload?: unknown) {
+				this.payload = payload;
+				return this;
+			}
+		}
+
+		it("keys by request.ip and rejects with 429", async () => {
+			const hook = fastifyRateLimit({ limiter: createLimiter(1) });
+			const request = { ip: "10.0.0.1" };
+
+			const first = new Reply();
+			expect(await hook(request, first)).toBeUndefined();
+			expect(first.headers["RateLimit-Remaining"]).toBe("0");
+
+			const second = new Reply();
+			expect(await hook(request, second)).toBe(second);
+			expect(second.statusCode).toBe(429);
+			expect(second.headers["Retry-After"]).toBeDefined();
+			expect(await ctx.redis.keys("rl:10.0.0.1:*")).toHaveLength(1);
+		});
+	});
+});
@@ -1,5 +1,14 @@
-import { describe, expect, it } from "vitest";
-import { RateLimiter } from "../src/rate-limiter/index.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	AcquireAbortedError,
+	AcquireTimeoutError,
+	RedisTimeoutError,
+} from "../src/rate-limiter/errors.js";
+import { rateLimitHeaders } from "../src/rate-limiter/headers.js";
+import {
+	RateLimiter,
+	type RateLimiterConfig,
+} from "../src/rate-limiter/index.js";
 import { useRedis } from "./setup.js";
 
 describe("RateLimiter", () => {
@@ -96,6 +105,68 @@ describe("RateLimiter", () => {
 			expect(r2.remaining).toBe(0);
 		});
 
+		it("consumes a weighted cost", async () => {
+			const limiter = createLimiter(10, 60);
+
+			const r1 = await limiter.limit("user:1", { cost: 4 });
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(6);
+
+			const r2 = await limiter.limit("user:1", { cost: 6 });
+			expect(r2.allowed).toBe(true);
+			expect(r2.remaining).toBe(0);
+		});
+
+		it("rejects a cost larger than what remains without consuming", async () => {
+			const limiter = createLimiter(5, 60);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.remaining).toBe(2);
+
+			// The rejected call didn't eat into the quota
+			const r3 = await limiter.limit("user:1", { cost: 2 });
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+		});
+
+		it("peek checks a cost without consuming", async () => {
+			const limiter = createLimiter(5, 60);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			expect((await limiter.peek("user:1", { cost: 2 })).allowed).toBe(true);
+			expect((await limiter.peek("user:1", { cost: 3 })).allowed).toBe(false);
+			expect((await limiter.peek("user:1")).remaining).toBe(2);
+		});
+
+		it("admits exactly the limit under concurrent calls", async () => {
+			const limiter = createLimiter(10, 60);
+
+			const results = await Promise.all(
+				Array.from({ length: 12 }, () => limiter.limit("user:1")),
+			);
+			expect(results.filter((r) => r.allowed)).toHaveLength(10);
+
+			// The counter was created with its expiry in the same call
+			const [key] = await ctx.redis.keys("rl:user:1:*");
+			expect(await ctx.redis.ttl(key)).toBeGreaterThan(0);
+		});
+
+		it("resets at the end of the window", async () => {
+			const limiter = createLimiter(1, 60);
+
+			const r1 = await limiter.limit("user:1");
+			expect(r1.resetAt % 60_000).toBe(0);
+			expect(r1.resetAt).toBeGreaterThan(Date.now());
+			expect(r1.resetAt).toBeLessThanOrEqual(Date.now() + 60_000);
+
+			const r2 = await limiter.limit("user:1");
+			expect(r2.retryAfter).toBeCloseTo((r2.resetAt - Date.now()) / 1000, 1);
+		});
+
 		it("window expires and counter resets naturally", async () => {
 			// Use a 1-second window so we can wait for it to expire
 			const limiter = createLimiter(1, 1);
@@ -151,7 +222,9 @@ describe("RateLimiter", () => {
 			const r3 = await limiter.limit("user:1");
 			expect(r3.allowed).toBe(false);
 			expect(r3.remaining).toBe(0);
-			expect(r3.retryAfter).toBe(60);
+			// The oldest entry leaves the window just under 60s from now
+			expect(r3.retryAfter).toBeGreaterThan(59);
+			expect(r3.retryAfter).toBeLessThanOrEqual(60);
 		});
 
 		it("isolates different keys", async () => {
@@ -197,6 +270,61 @@ describe("RateLimiter", () => {
 			expect(r2.allowed).toBe(true);
 		});
 
+		it("consumes a weighted cost", async () => {
+			const limiter = createLimiter(10, 60);
+
+			const r1 = await limiter.limit("user:1", { cost: 4 });
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(6);
+
+			// One sorted-set member per unit
+			expect(await ctx.redis.zcard("rl:user:1")).toBe(4);
+		});
+
+		it("rejects a cost larger than what remains without consuming", async () => {
+			const limiter = createLimiter(5, 60);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.remaining).toBe(2);
+			expect(await ctx.redis.zcard("rl:user:1")).toBe(3);
+
+			const r3 = await limiter.limit("user:1", { cost: 2 });
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+		});
+
+		it("peek checks a cost without consuming", async () => {
+			const limiter = createLimiter(5, 60);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			expect((await limiter.peek("user:1", { cost: 2 })).allowed).toBe(true);
+			expect((await limiter.peek("user:1", { cost: 3 })).allowed).toBe(false);
+		});
+
+		it("computes retryAfter from the oldest entry", async () => {
+			const limiter = createLimiter(2, 2);
+
+			await limiter.limit("user:1");
+			await new Promise((resolve) => setTimeout(resolve, 500));
+			const r2 = await limiter.limit("user:1");
+
+			// The first entry leaves the window ~1.5s from now,
+			// the second one ~2s from now.
+			const r3 = await limiter.limit("user:1");
+			expect(r3.allowed).toBe(false);
+			expect(r3.retryAfter).toBeGreaterThan(1.3);
+			expect(r3.retryAfter).toBeLessThanOrEqual(1.5);
+			expect(r3.resetAt).toBeGreaterThanOrEqual(r2.resetAt);
+
+			// A cost of 2 has to wait for both entries to expire
+			const r4 = await limiter.peek("user:1", { cost: 2 });
+			expect(r4.retryAfter).toBeGreaterThan(1.8);
+		});
+
 		it("window slides — old entries expire naturally", async () => {
 			const limiter = createLimiter(1, 1);
 
@@ -214,6 +342,111 @@ describe("RateLimiter", () => {
 		});
 	});
 
+	describe("sliding-window-counter", () => {
+		function createLimiter(limit: number, window: number) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "sliding-window-counter",
+				limit,
+				window,
+			});
+		}
+
+		it("allows requests under the limit", async () => {
+			const limiter = createLimiter(3, 60);
+
+			const r1 = await limiter.limit("user:1");
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(2);
+			expect(r1.limit).toBe(3);
+			expect(r1.retryAfter).toBe(0);
+
+			await limiter.limit("user:1");
+			const r3 = await limiter.limit("user:1");
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+
+			const r4 = await limiter.limit("user:1");
+			expect(r4.allowed).toBe(false);
+			expect(r4.retryAfter).toBeGreaterThan(0);
+		});
+
+		it("weights the previous window by its overlap", async () => {
+			// 15s into a 60s window: the previous window still counts 75%
+			const windowStart = 1708617600;
+			await ctx.redis.set(`rl:user:1:${windowStart - 60}`, "8");
+
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "sliding-window-counter",
+				limit: 10,
+				window: 60,
+				clock: () => windowStart * 1000 + 15_000,
+			});
+
+			// estimated = 8 * 0.75 + 0 = 6
+			const p = await limiter.peek("user:1");
+			expect(p.remaining).toBe(4);
+
+			const r1 = await limiter.limit("user:1", { cost: 4 });
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(0);
+
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+			// Allowed again once 8 * weight <= 10 - 4 - 1, i.e. weight <= 0.625
+			expect(r2.retryAfter).toBe(7.5);
+		});
+
+		it("keeps only two counters per key", async () => {
+			const limiter = createLimiter(100, 60);
+
+			for (let i = 0; i < 10; i++) {
+				await limiter.limit("user:1");
+			}
+
+			expect(await ctx.redis.keys("rl:user:1*")).toHaveLength(1);
+		});
+
+		it("rejects a cost larger than what remains without consuming", async () => {
+			const limiter = createLimiter(5, 60);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.remaining).toBe(2);
+
+			const r3 = await limiter.limit("user:1", { cost: 2 });
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+		});
+
+		it("peek reads without consuming", async () => {
+			const limiter = createLimiter(2, 60);
+
+			await limiter.limit("user:1");
+
+			const p1 = await limiter.peek("user:1");
+			expect(p1.allowed).toBe(true);
+			expect(p1.remaining).toBe(1);
+
+			const p2 = await limiter.peek("user:1");
+			expect(p2.remaining).toBe(1);
+		});
+
+		it("reset clears the counters", async () => {
+			const limiter = createLimiter(1, 60);
+
+			await limiter.limit("user:1");
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+
+			await limiter.reset("user:1");
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+	});
+
 	describe("token-bucket", () => {
 		function createLimiter(capacity: number, refillRate: number) {
 			return new RateLimiter({
@@ -306,6 +539,53 @@ describe("RateLimiter", () => {
 			expect(r3.allowed).toBe(false);
 		});
 
+		it("consumes a weighted cost", async () => {
+			const limiter = createLimiter(10, 1);
+
+			const r1 = await limiter.limit("user:1", { cost: 7 });
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(3);
+		});
+
+		it("rejects a cost larger than the tokens left without consuming", async () => {
+			const limiter = createLimiter(5, 0.001);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.remaining).toBe(2);
+
+			const r3 = await limiter.limit("user:1", { cost: 2 });
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+		});
+
+		it("peek checks a cost without consuming", async () => {
+			const limiter = createLimiter(5, 0.001);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			expect((await limiter.peek("user:1", { cost: 2 })).allowed).toBe(true);
+			expect((await limiter.peek("user:1", { cost: 3 })).allowed).toBe(false);
+		});
+
+		it("computes retryAfter and resetAt from the token deficit", async () => {
+			// 1 token every 2s
+			const limiter = createLimiter(4, 0.5);
+
+			const r1 = await limiter.limit("user:1", { cost: 4 });
+			// Empty bucket: 4 tokens × 2s to fill back up
+			expect(r1.resetAt - Date.now()).toBeGreaterThan(7_900);
+			expect(r1.resetAt - Date.now()).toBeLessThanOrEqual(8_000);
+
+			// Needs 3 tokens → ~6s, not the time for a single token
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.retryAfter).toBeGreaterThan(5.9);
+			expect(r2.retryAfter).toBeLessThanOrEqual(6);
+		});
+
 		it("reset restores a full bucket", async () => {
 			const limiter = createLimiter(1, 1);
 
@@ -318,5 +598,1583 @@ describe("RateLimiter", () => {
 			const r = await limiter.limit("user:1");
 			expect(r.allowed).toBe(true);
 		});
+
+		it("starts new buckets with initialTokens", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 10,
+				refillRate: 0.001,
+				initialTokens: 2,
+			});
+
+			expect((await limiter.peek("user:1")).remaining).toBe(2);
+			await limiter.limit("user:1", { cost: 2 });
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+		});
+
+		it("refills in discrete steps with refillInterval", async () => {
+			let now = 1708617600_000;
+			// 100 tokens every 15 minutes
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 100,
+				refillRate: 100,
+				refillInterval: 900,
+				clock: () => now,
+			});
+
+			const drained = await limiter.limit("user:1", { cost: 100 });
+			expect(drained.resetAt).toBe(now + 900_000);
+
+			// Nothing trickles in before the interval is up.
+			now += 899_000;
+			const rejected = await limiter.limit("user:1");
+			expect(rejected.allowed).toBe(false);
+			expect(rejected.retryAfter).toBe(1);
+
+			now += 1_000;
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(true);
+			expect(r.remaining).toBe(99);
+		});
+
+		it("carries a partial interval over to the next step", async () => {
+			let now = 1708617600_000;
+			// 2 tokens every minute
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 4,
+				refillRate: 2,
+				refillInterval: 60,
+				clock: () => now,
+			});
+
+			await limiter.limit("user:1", { cost: 4 });
+			now += 90_000;
+			const r1 = await limiter.limit("user:1", { cost: 2 });
+			expect(r1.allowed).toBe(true);
+
+			// The next step is due 60s after the first, not after this call.
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+			expect(r2.retryAfter).toBe(30);
+		});
+
+		it("honors initialTokens and refillInterval in composite rules", async () => {
+			let now = 1708617600_000;
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{
+						strategy: "token-bucket",
+						capacity: 5,
+						refillRate: 5,
+						refillInterval: 60,
+						initialTokens: 1,
+					},
+				],
+				clock: () => now,
+			});
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+			const rejected = await limiter.limit("user:1");
+			expect(rejected.allowed).toBe(false);
+			expect(rejected.retryAfter).toBe(60);
+
+			now += 60_000;
+			expect((await limiter.peek("user:1")).remaining).toBe(5);
+		});
+
+		it("refills an empty new bucket the same standalone as in a composite", async () => {
+			let now = 1708617600_000;
+			const rule = {
+				strategy: "token-bucket",
+				capacity: 5,
+				refillRate: 1,
+				initialTokens: 0,
+			} as const;
+			const standalone = new RateLimiter({
+				redis: ctx.redis,
+				...rule,
+				prefix: "rl:standalone",
+				clock: () => now,
+			});
+			const composite = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [rule],
+				prefix: "rl:composite",
+				clock: () => now,
+			});
+
+			// The rejected first call starts the refill in both.
+			expect((await standalone.limit("user:1")).allowed).toBe(false);
+			expect((await composite.limit("user:1")).allowed).toBe(false);
+
+			now += 2_000;
+			expect((await standalone.limit("user:1")).remaining).toBe(1);
+			expect((await composite.limit("user:1")).remaining).toBe(1);
+		});
+	});
+
+	describe("reserve", () => {
+		function createLimiter(capacity: number, refillRate: number) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity,
+				refillRate,
+				clock: () => 1708617600_000,
+			});
+		}
+
+		it("is ready right away while tokens are available", async () => {
+			const limiter = createLimiter(5, 1);
+
+			const reservation = await limiter.reserve("user:1", 3);
+			expect(reservation.ok).toBe(true);
+			expect(reservation.delay).toBe(0);
+			expect((await limiter.peek("user:1")).remaining).toBe(2);
+		});
+
+		it("reserves tokens the bucket doesn't hold yet", async () => {
+			// 1 token every 2s
+			const limiter = createLimiter(4, 0.5);
+			await limiter.limit("user:1", { cost: 3 });
+
+			const reservation = await limiter.reserve("user:1", 3);
+			expect(reservation.ok).toBe(true);
+			expect(reservation.delay).toBe(4);
+
+			// Later calls queue behind the debt.
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(false);
+			expect(r.remaining).toBe(0);
+			expect(r.retryAfter).toBe(6);
+		});
+
+		it("refuses more tokens than the bucket can hold", async () => {
+			const limiter = createLimiter(4, 1);
+
+			const reservation = await limiter.reserve("user:1", 5);
+			expect(reservation.ok).toBe(false);
+			expect(reservation.delay).toBe(Number.POSITIVE_INFINITY);
+			expect((await limiter.peek("user:1")).remaining).toBe(4);
+		});
+
+		it("gives the tokens back when cancelled", async () => {
+			const limiter = createLimiter(4, 0.5);
+			await limiter.limit("user:1", { cost: 4 });
+
+			const reservation = await limiter.reserve("user:1", 2);
+			await reservation.cancel();
+			// Cancelling twice doesn't give back twice.
+			await reservation.cancel();
+
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(false);
+			expect(r.retryAfter).toBe(2);
+		});
+
+		it("rejects a non-positive token count", async () => {
+			const limiter = createLimiter(4, 1);
+
+			await expect(limiter.reserve("user:1", 0)).rejects.toThrow(RangeError);
+		});
+
+		it("needs the token-bucket strategy", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 5,
+				window: 60,
+			});
+
+			await expect(limiter.reserve("user:1")).rejects.toThrow(
+				"reserve needs the token-bucket strategy",
+			);
+		});
+	});
+
+	describe("gcra", () => {
+		function createLimiter(emissionInterval: number, burst?: number) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "gcra",
+				emissionInterval,
+				burst,
+			});
+		}
+
+		it("allows a burst, then rejects", async () => {
+			const limiter = createLimiter(60, 3);
+
+			const r1 = await limiter.limit("user:1");
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(2);
+			expect(r1.limit).toBe(3);
+			expect(r1.retryAfter).toBe(0);
+
+			await limiter.limit("user:1");
+			const r3 = await limiter.limit("user:1");
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+
+			const r4 = await limiter.limit("user:1");
+			expect(r4.allowed).toBe(false);
+			expect(r4.remaining).toBe(0);
+		});
+
+		it("reports an exact retryAfter", async () => {
+			// One request every 500ms, no burst
+			const limiter = createLimiter(0.5);
+
+			await limiter.limit("user:1");
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+			expect(r2.retryAfter).toBeGreaterThan(0.4);
+			expect(r2.retryAfter).toBeLessThanOrEqual(0.5);
+		});
+
+		it("lets requests through again at the emission interval", async () => {
+			const limiter = createLimiter(0.2);
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+
+			await new Promise((resolve) => setTimeout(resolve, 250));
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+
+		it("stores a single value per key", async () => {
+			const limiter = createLimiter(60, 5);
+
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+
+			expect(await ctx.redis.type("rl:user:1")).toBe("string");
+		});
+
+		it("rejects a cost larger than the burst left without consuming", async () => {
+			const limiter = createLimiter(60, 5);
+
+			await limiter.limit("user:1", { cost: 3 });
+
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			expect(r2.allowed).toBe(false);
+			expect(r2.remaining).toBe(2);
+
+			const r3 = await limiter.limit("user:1", { cost: 2 });
+			expect(r3.allowed).toBe(true);
+			expect(r3.remaining).toBe(0);
+		});
+
+		it("peek reads without consuming", async () => {
+			const limiter = createLimiter(60, 2);
+
+			await limiter.limit("user:1");
+
+			const p1 = await limiter.peek("user:1");
+			expect(p1.allowed).toBe(true);
+			expect(p1.remaining).toBe(1);
+
+			const p2 = await limiter.peek("user:1");
+			expect(p2.remaining).toBe(1);
+		});
+
+		it("isolates different keys", async () => {
+			const limiter = createLimiter(60);
+
+			expect((await limiter.limit("user:a")).allowed).toBe(true);
+			expect((await limiter.limit("user:b")).allowed).toBe(true);
+			expect((await limiter.limit("user:a")).allowed).toBe(false);
+		});
+
+		it("reset clears the key", async () => {
+			const limiter = createLimiter(60);
+
+			await limiter.limit("user:1");
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+
+			await limiter.reset("user:1");
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+	});
+
+	describe("composite", () => {
+		function createLimiter() {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{
+						name: "burst",
+						strategy: "token-bucket",
+						capacity: 3,
+						refillRate: 1,
+					},
+					{
+						name: "hourly",
+						strategy: "sliding-window",
+						limit: 5,
+						window: 3600,
+					},
+					{
+						name: "daily",
+						strategy: "fixed-window",
+						limit: 100,
+						window: 86400,
+					},
+				],
+			});
+		}
+
+		it("reports the tightest remaining and the binding rule", async () => {
+			const limiter = createLimiter();
+
+			const r1 = await limiter.limit("user:1");
+			expect(r1.allowed).toBe(true);
+			expect(r1.remaining).toBe(2);
+			expect(r1.limit).toBe(3);
+			expect(r1.rule).toBe("burst");
+		});
+
+		it("rejects when any rule rejects", async () => {
+			const limiter = createLimiter();
+
+			for (let i = 0; i < 3; i++) {
+				expect((await limiter.limit("user:1")).allowed).toBe(true);
+			}
+
+			const r4 = await limiter.limit("user:1");
+			expect(r4.allowed).toBe(false);
+			expect(r4.rule).toBe("burst");
+			expect(r4.retryAfter).toBeGreaterThan(0);
+		});
+
+		it("consumes from no rule when one rejects", async () => {
+			const limiter = createLimiter();
+
+			await limiter.limit("user:1", { cost: 3 });
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+
+			// The rejected call left the other rules untouched
+			expect(await ctx.redis.zcard("rl:user:1:hourly")).toBe(3);
+			const daily = await ctx.redis.keys("rl:user:1:daily:*");
+			expect(await ctx.redis.get(daily[0])).toBe("3");
+		});
+
+		it("picks the rule that makes the caller wait longest", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{ name: "second", strategy: "gcra", emissionInterval: 1 },
+					{ name: "minute", strategy: "sliding-window", limit: 1, window: 60 },
+				],
+			});
+
+			await limiter.limit("user:1");
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+			expect(r2.rule).toBe("minute");
+			expect(r2.retryAfter).toBeGreaterThan(59);
+			expect(r2.retryAfter).toBeLessThanOrEqual(60);
+		});
+
+		it("defaults rule names to their index", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{ strategy: "fixed-window", limit: 10, window: 60 },
+					{ strategy: "gcra", emissionInterval: 1, burst: 2 },
+				],
+			});
+
+			const r = await limiter.limit("user:1");
+			expect(r.rule).toBe("1");
+			expect(await ctx.redis.exists("rl:user:1:1")).toBe(1);
+		});
+
+		it("peek reads without consuming", async () => {
+			const limiter = createLimiter();
+
+			await limiter.limit("user:1");
+
+			const p1 = await limiter.peek("user:1");
+			expect(p1.allowed).toBe(true);
+			expect(p1.remaining).toBe(2);
+
+			const p2 = await limiter.peek("user:1");
+			expect(p2.remaining).toBe(2);
+		});
+
+		it("reset clears every rule", async () => {
+			const limiter = createLimiter();
+
+			await limiter.limit("user:1", { cost: 3 });
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+
+			await limiter.reset("user:1");
+
+			expect(await ctx.redis.keys("rl:user:1*")).toEqual([]);
+			expect((await limiter.limit("user:1")).remaining).toBe(2);
+		});
+
+		it("requires at least one rule", () => {
+			expect(
+				() =>
+					new RateLimiter({
+						redis: ctx.redis,
+						strategy: "composite",
+						rules: [],
+					}),
+			).toThrow();
+		});
+	});
+
+	describe("clock", () => {
+		it("uses the Redis server's time by default", async () => {
+			const [sec] = await ctx.redis.time();
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+			});
+
+			await limiter.limit("user:1");
+			const windowStart = Math.floor(Number(sec) / 60) * 60;
+			const keys = await ctx.redis.keys("rl:user:1:*");
+			// The window may have rolled over between TIME and the script.
+			expect([
+				`rl:user:1:${windowStart}`,
+				`rl:user:1:${windowStart + 60}`,
+			]).toContain(keys[0]);
+		});
+
+		it("reads a custom clock for every call", async () => {
+			let now = 1708617600_000;
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+				clock: () => now,
+			});
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+			const rejected = await limiter.limit("user:1");
+			expect(rejected.allowed).toBe(false);
+			expect(rejected.retryAfter).toBe(60);
+			expect(rejected.resetAt).toBe(1708617660_000);
+
+			// Moving the clock into the next window starts a fresh count.
+			now += 60_000;
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+	});
+
+	describe("acquire", () => {
+		function createLimiter(capacity: number, refillRate: number) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity,
+				refillRate,
+			});
+		}
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("resolves right away when the call is allowed", async () => {
+			const limiter = createLimiter(5, 1);
+
+			const result = await limiter.acquire("api");
+			expect(result.allowed).toBe(true);
+			expect(result.remaining).toBe(4);
+		});
+
+		it("sleeps for retryAfter instead of polling", async () => {
+			// One token every 100ms
+			const limiter = createLimiter(1, 10);
+			await limiter.acquire("api");
+
+			const evalSpy = vi.spyOn(ctx.redis, "evalsha");
+			const started = Date.now();
+			const result = await limiter.acquire("api");
+
+			expect(result.allowed).toBe(true);
+			expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+			// One rejected attempt, then one that goes through
+			expect(evalSpy).toHaveBeenCalledTimes(2);
+		});
+
+		it("serves waiters for the same key in FIFO order", async () => {
+			const limiter = createLimiter(1, 20);
+			await limiter.acquire("api");
+
+			const order: number[] = [];
+			await Promise.all(
+				[1, 2, 3].map((n) => limiter.acquire("api").then(() => order.push(n))),
+			);
+
+			expect(order).toEqual([1, 2, 3]);
+		});
+
+		it("rejects with AcquireTimeoutError once maxWait can't be met", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+				// Pinned to the start of a window: 60s until it ends
+				clock: () => 1708617600_000,
+			});
+			await limiter.acquire("api");
+
+			const started = Date.now();
+			const error = await limiter
+				.acquire("api", { maxWait: 1000 })
+				.catch((e) => e);
+
+			expect(error).toBeInstanceOf(AcquireTimeoutError);
+			expect(error.maxWait).toBe(1000);
+			// The window won't end within maxWait, so there's no point waiting.
+			expect(Date.now() - started).toBeLessThan(500);
+		});
+
+		it("rejects with AcquireAbortedError when the signal aborts", async () => {
+			const limiter = createLimiter(1, 1);
+			await limiter.acquire("api");
+
+			const controller = new AbortController();
+			const pending = limiter.acquire("api", { signal: controller.signal });
+			setTimeout(() => controller.abort("shutting down"), 20);
+
+			const error = await pending.catch((e) => e);
+			expect(error).toBeInstanceOf(AcquireAbortedError);
+			expect(error.cause).toBe("shutting down");
+		});
+
+		it("lets waiters behind an aborted one through", async () => {
+			const limiter = createLimiter(1, 20);
+			await limiter.acquire("api");
+
+			const controller = new AbortController();
+			const first = limiter
+				.acquire("api", { signal: controller.signal })
+				.catch((e) => e);
+			const second = limiter.acquire("api");
+			controller.abort();
+
+			expect(await first).toBeInstanceOf(AcquireAbortedError);
+			expect((await second).allowed).toBe(true);
+		});
+
+		it("rejects a cost that can never be allowed", async () => {
+			const limiter = createLimiter(5, 1);
+
+			await expect(limiter.acquire("api", { cost: 6 })).rejects.toThrow(
+				RangeError,
+			);
+		});
+	});
+
+	describe("tiers and overrides", () => {
+		function createLimiter(limit: number) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit,
+				window: 60,
+			});
+		}
+
+		it("applies a key's tier", async () => {
+			const limiter = createLimiter(2);
+			await limiter.setTier("pro", { limit: 5 });
+			await limiter.setOverride("customer:1", { tier: "pro" });
+
+			const pro = await limiter.limit("customer:1");
+			expect(pro.limit).toBe(5);
+			expect(pro.remaining).toBe(4);
+
+			const free = await limiter.limit("customer:2");
+			expect(free.limit).toBe(2);
+			expect(free.remaining).toBe(1);
+		});
+
+		it("lets a key's own parameters win over its tier's", async () => {
+			const limiter = createLimiter(2);
+			await limiter.setTier("pro", { limit: 5 });
+			await limiter.setOverride("customer:1", { tier: "pro", limit: 7 });
+
+			expect((await limiter.peek("customer:1")).limit).toBe(7);
+		});
+
+		it("shares tiers and overrides between processes", async () => {
+			const admin = createLimiter(2);
+			const worker = createLimiter(2);
+
+			await admin.setTier("pro", { limit: 5 });
+			await admin.setOverride("customer:1", { tier: "pro" });
+			expect((await worker.peek("customer:1")).limit).toBe(5);
+
+			await admin.setTier("pro", { limit: 10 });
+			expect((await worker.peek("customer:1")).limit).toBe(10);
+		});
+
+		it("falls back to the configured parameters when an override lapses", async () => {
+			const limiter = createLimiter(2);
+			await limiter.setOverride("customer:1", { limit: 100 }, { ttl: 0.05 });
+			expect((await limiter.peek("customer:1")).limit).toBe(100);
+
+			await new Promise((r) => setTimeout(r, 100));
+			expect((await limiter.peek("customer:1")).limit).toBe(2);
+		});
+
+		it("clears an override", async () => {
+			const limiter = createLimiter(2);
+			await limiter.setOverride("customer:1", { limit: 100 });
+			await limiter.clearOverride("customer:1");
+
+			expect((await limiter.peek("customer:1")).limit).toBe(2);
+		});
+
+		it("falls back when a key's tier is deleted", async () => {
+			const limiter = createLimiter(2);
+			await limiter.setTier("pro", { limit: 5 });
+			await limiter.setOverride("customer:1", { tier: "pro" });
+			await limiter.deleteTier("pro");
+
+			expect((await limiter.peek("customer:1")).limit).toBe(2);
+		});
+
+		it("overrides the window, too", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+				clock: () => 1708617600_000,
+			});
+			await limiter.setOverride("customer:1", { window: 3600 });
+
+			await limiter.limit("customer:1");
+			const result = await limiter.limit("customer:1");
+			expect(result.allowed).toBe(false);
+			expect(result.retryAfter).toBe(3600);
+
+			await limiter.reset("customer:1");
+			expect((await limiter.limit("customer:1")).allowed).toBe(true);
+		});
+
+		it("overrides token bucket capacity", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 5,
+				refillRate: 1,
+			});
+			await limiter.setOverride("customer:1", { capacity: 20 });
+
+			const result = await limiter.limit("customer:1", { cost: 10 });
+			expect(result.allowed).toBe(true);
+			expect(result.limit).toBe(20);
+			expect(result.remaining).toBe(10);
+		});
+
+		it("overrides the gcra emission interval in seconds", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "gcra",
+				emissionInterval: 1,
+			});
+			await limiter.setOverride("customer:1", { emissionInterval: 10 });
+
+			await limiter.limit("customer:1");
+			const result = await limiter.limit("customer:1");
+			expect(result.allowed).toBe(false);
+			expect(result.retryAfter).toBeGreaterThan(9);
+		});
+
+		it("rejects parameters that don't apply to the strategy", async () => {
+			const limiter = createLimiter(2);
+
+			await expect(
+				limiter.setOverride("customer:1", { capacity: 10 }),
+			).rejects.toThrow(RangeError);
+			await expect(limiter.setTier("pro", { limit: -1 })).rejects.toThrow(
+				RangeError,
+			);
+		});
+
+		it("rejects fractional counts and windows", async () => {
+			const limiter = createLimiter(2);
+
+			await expect(
+				limiter.setOverride("customer:1", { window: 1.5 }),
+			).rejects.toThrow(RangeError);
+			await expect(limiter.setTier("pro", { limit: 2.5 })).rejects.toThrow(
+				RangeError,
+			);
+		});
+
+		it("keeps tiers and overrides apart from keys", async () => {
+			const limiter = createLimiter(1);
+			await limiter.setTier("pro", { limit: 5 });
+			await limiter.setOverride("customer:1", { tier: "pro" });
+
+			// Keys named like the hashes don't touch them.
+			expect((await limiter.limit("tiers")).allowed).toBe(true);
+			expect((await limiter.limit("override:customer:1")).allowed).toBe(true);
+			expect((await limiter.peek("customer:1")).limit).toBe(5);
+			await limiter.reset("tiers");
+			expect((await limiter.peek("customer:1")).limit).toBe(5);
+		});
+
+		it("isn't supported by the composite strategy", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [{ strategy: "fixed-window", limit: 1, window: 60 }],
+			});
+
+			await expect(
+				limiter.setOverride("customer:1", { tier: "pro" }),
+			).rejects.toThrow();
+		});
+	});
+
+	describe("penalty", () => {
+		function createLimiter(penalty: RateLimiterConfig["penalty"]) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+				penalty,
+			});
+		}
+
+		it("bans a key once it reaches the violation threshold", async () => {
+			const limiter = createLimiter({ threshold: 2, bans: [60, 600] });
+
+			await limiter.limit("user:1");
+			const r1 = await limiter.limit("user:1");
+			expect(r1.allowed).toBe(false);
+			expect(r1.banned).toBeUndefined();
+
+			const r2 = await limiter.limit("user:1");
+			expect(r2.allowed).toBe(false);
+			expect(r2.banned).toBe(true);
+			expect(r2.retryAfter).toBe(60);
+			expect(r2.bannedUntil).toBe(r2.resetAt);
+
+			const p = await limiter.peek("user:1");
+			expect(p.banned).toBe(true);
+			expect(p.retryAfter).toBeGreaterThan(59);
+			expect(p.retryAfter).toBeLessThanOrEqual(60);
+		});
+
+		it("rejects banned keys even when the limit would allow them", async () => {
+			const limiter = createLimiter({});
+			await limiter.ban("user:1", 30);
+
+			const result = await limiter.limit("user:1");
+			expect(result.allowed).toBe(false);
+			expect(result.banned).toBe(true);
+			expect(result.remaining).toBe(0);
+
+			// Nothing was consumed while banned
+			await limiter.unban("user:1");
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+
+		it("rejects banned keys in composites and reservations", async () => {
+			const composite = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{ strategy: "fixed-window", limit: 5, window: 60 },
+					{ strategy: "token-bucket", capacity: 3, refillRate: 1 },
+				],
+				penalty: {},
+			});
+			await composite.ban("user:1", 30);
+			const rejected = await composite.limit("user:1");
+			expect(rejected).toMatchObject({
+				allowed: false,
+				banned: true,
+				limit: 3,
+			});
+			await composite.unban("user:1");
+			expect((await composite.peek("user:1")).remaining).toBe(3);
+
+			const bucket = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 3,
+				refillRate: 1,
+				penalty: {},
+			});
+			await bucket.ban("user:2", 30);
+			expect((await bucket.reserve("user:2")).ok).toBe(false);
+			await bucket.unban("user:2");
+			expect((await bucket.peek("user:2")).remaining).toBe(3);
+		});
+
+		it("escalates repeat bans", async () => {
+			const limiter = createLimiter({ threshold: 1, bans: [60, 600] });
+
+			await limiter.limit("user:1");
+			expect((await limiter.limit("user:1")).retryAfter).toBe(60);
+
+			// Unbanning keeps the history, so the next ban is longer...
+			await limiter.unban("user:1");
+			expect((await limiter.limit("user:1")).retryAfter).toBe(600);
+
+			// ...and the last duration repeats from then on.
+			await limiter.unban("user:1");
+			expect((await limiter.limit("user:1")).retryAfter).toBe(600);
+		});
+
+		it("reset forgets the ban and its history", async () => {
+			const limiter = createLimiter({ threshold: 1, bans: [60, 600] });
+
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+			await limiter.reset("user:1");
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+
+			const rejected = await limiter.limit("user:1");
+			expect(rejected.retryAfter).toBe(60);
+		});
+
+		it("doesn't count acquire's waiting as violations", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "sliding-window",
+				limit: 1,
+				window: 1,
+				penalty: { threshold: 1, bans: [60] },
+			});
+
+			await limiter.limit("user:1");
+			const result = await limiter.acquire("user:1", { maxWait: 3000 });
+			expect(result.allowed).toBe(true);
+			expect((await limiter.peek("user:1")).banned).toBeUndefined();
+		});
+
+		it("keeps bans apart from keys", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "gcra",
+				emissionInterval: 60,
+				penalty: {},
+			});
+
+			// GCRA's state for "ban:x" would read as a live ban on "x" if
+			// the two shared a key.
+			await limiter.limit("ban:x");
+			expect((await limiter.limit("x")).allowed).toBe(true);
+			expect((await limiter.peek("x")).banned).toBeUndefined();
+
+			await limiter.ban("x", 30);
+			expect((await limiter.limit("ban:x")).banned).toBeUndefined();
+		});
+
+		it("rejects thresholds, decays and bans that aren't positive integers", () => {
+			expect(() => createLimiter({ threshold: 0 })).toThrow(RangeError);
+			expect(() => createLimiter({ decay: 0.5 })).toThrow(RangeError);
+			expect(() => createLimiter({ bans: [60, 1.5] })).toThrow(RangeError);
+			expect(() => createLimiter({ bans: [-60] })).toThrow(RangeError);
+		});
+
+		it("needs a penalty policy for manual bans", async () => {
+			const limiter = createLimiter(undefined);
+
+			await expect(limiter.ban("user:1", 30)).rejects.toThrow();
+			await expect(limiter.unban("user:1")).rejects.toThrow();
+		});
+	});
+
+	describe("refund", () => {
+		function createLimiter(config: Partial<RateLimiterConfig>) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 3,
+				window: 60,
+				...config,
+			} as RateLimiterConfig);
+		}
+
+		it("gives back what a fixed window call consumed", async () => {
+			const limiter = createLimiter({});
+
+			const r1 = await limiter.limit("user:1", { cost: 2 });
+			expect(r1.receipt).toBeDefined();
+			await limiter.refund("user:1", { receipt: r1.receipt });
+			expect((await limiter.peek("user:1")).remaining).toBe(3);
+
+			// Partial refund
+			const r2 = await limiter.limit("user:1", { cost: 3 });
+			await limiter.refund("user:1", { receipt: r2.receipt, amount: 1 });
+			expect((await limiter.peek("user:1")).remaining).toBe(1);
+		});
+
+		it("never takes a counter below zero", async () => {
+			const limiter = createLimiter({});
+
+			await limiter.limit("user:1");
+			await limiter.refund("user:1", { amount: 3 });
+			await limiter.limit("user:1", { cost: 3 });
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+		});
+
+		it("removes the refunded request from a sliding window", async () => {
+			const limiter = createLimiter({ strategy: "sliding-window", limit: 2 });
+
+			const first = await limiter.limit("user:1");
+			await limiter.limit("user:1");
+			await limiter.refund("user:1", { receipt: first.receipt });
+			// Refunding the same request again finds nothing to remove
+			await limiter.refund("user:1", { receipt: first.receipt });
+			expect(await ctx.redis.zcard("rl:user:1")).toBe(1);
+
+			// Without a receipt, the newest request goes
+			await limiter.refund("user:1");
+			expect(await ctx.redis.zcard("rl:user:1")).toBe(0);
+		});
+
+		it("decrements the current sliding window counter", async () => {
+			const limiter = createLimiter({ strategy: "sliding-window-counter" });
+
+			const result = await limiter.limit("user:1", { cost: 3 });
+			await limiter.refund("user:1", { receipt: result.receipt });
+			expect((await limiter.limit("user:1", { cost: 3 })).allowed).toBe(true);
+		});
+
+		it("adds tokens back up to the bucket's capacity", async () => {
+			const limiter = createLimiter({
+				strategy: "token-bucket",
+				capacity: 5,
+				refillRate: 0.001,
+			});
+
+			const result = await limiter.limit("user:1", { cost: 2 });
+			await limiter.refund("user:1", { receipt: result.receipt });
+			await limiter.refund("user:1", { amount: 3 });
+
+			expect((await limiter.limit("user:1", { cost: 5 })).allowed).toBe(true);
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+		});
+
+		it("moves the GCRA arrival time back", async () => {
+			const limiter = createLimiter({
+				strategy: "gcra",
+				emissionInterval: 10,
+				burst: 2,
+			});
+
+			await limiter.limit("user:1");
+			const result = await limiter.limit("user:1");
+			expect((await limiter.peek("user:1")).allowed).toBe(false);
+
+			await limiter.refund("user:1", { receipt: result.receipt });
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+
+		it("refunds every rule of a composite", async () => {
+			const limiter = createLimiter({
+				strategy: "composite",
+				rules: [
+					{ name: "burst", strategy: "sliding-window", limit: 2, window: 1 },
+					{ name: "daily", strategy: "fixed-window", limit: 3, window: 86400 },
+				],
+			});
+
+			const result = await limiter.limit("user:1", { cost: 2 });
+			await limiter.refund("user:1", { receipt: result.receipt });
+
+			const after = await limiter.limit("user:1", { cost: 2 });
+			expect(after.allowed).toBe(true);
+			expect(after.remaining).toBe(0);
+		});
+
+		it("issues receipts only for consumed units", async () => {
+			const limiter = createLimiter({ limit: 1 });
+
+			expect((await limiter.peek("user:1")).receipt).toBeUndefined();
+			await limiter.limit("user:1");
+			expect((await limiter.limit("user:1")).receipt).toBeUndefined();
+		});
+
+		it("rejects invalid amounts and receipts", async () => {
+			const limiter = createLimiter({});
+			const { receipt } = await limiter.limit("user:1");
+
+			await expect(limiter.refund("user:1", { amount: 0 })).rejects.toThrow(
+				RangeError,
+			);
+			await expect(
+				limiter.refund("user:1", { receipt, amount: 2 }),
+			).rejects.toThrow(RangeError);
+			await expect(
+				limiter.refund("user:1", { receipt: "not-a-receipt" }),
+			).rejects.toThrow(RangeError);
+
+			// A window that would name another key's counter
+			const forged = (receipt: object) =>
+				Buffer.from(JSON.stringify(receipt)).toString("base64url");
+			for (const bad of [
+				{ cost: 1, window: "1:1708617600" },
+				{ cost: 1, window: 1.5 },
+				{ cost: 1, id: 7 },
+				{ cost: 1, rules: { a: { cost: 0 } } },
+				{ cost: 1, rules: [] },
+			]) {
+				await expect(
+					limiter.refund("user:1", { receipt: forged(bad) }),
+				).rejects.toThrow(RangeError);
+			}
+		});
+	});
+
+	describe("limitMany", () => {
+		function createLimiter(config: Partial<RateLimiterConfig> = {}) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 2,
+				window: 60,
+				...config,
+			} as RateLimiterConfig);
+		}
+
+		it("limits each key on its own by default", async () => {
+			const limiter = createLimiter();
+			await limiter.limit("user:1", { cost: 2 });
+
+			const results = await limiter.limitMany(["user:1", "org:1"]);
+			expect(results.get("user:1")?.allowed).toBe(false);
+			expect(results.get("org:1")?.allowed).toBe(true);
+			expect(results.get("org:1")?.remaining).toBe(1);
+		});
+
+		it("consumes from no key when one rejects, with allOrNothing", async () => {
+			const limiter = createLimiter();
+			await limiter.limit("user:1", { cost: 2 });
+
+			const results = await limiter.limitMany(["user:1", "org:1"], {
+				allOrNothing: true,
+			});
+			expect(results.get("user:1")?.allowed).toBe(false);
+			expect(results.get("user:1")?.retryAfter).toBeGreaterThan(0);
+			expect(results.get("org:1")?.allowed).toBe(false);
+			expect(results.get("org:1")?.retryAfter).toBe(0);
+			expect((await limiter.peek("org:1")).remaining).toBe(2);
+		});
+
+		it("consumes from every key when all allow, with allOrNothing", async () => {
+			const limiter = createLimiter();
+
+			const results = await limiter.limitMany(["user:1", "org:1"], {
+				allOrNothing: true,
+				cost: 2,
+			});
+			expect([...results.values()].every((r) => r.allowed)).toBe(true);
+			expect((await limiter.peek("user:1")).remaining).toBe(0);
+			expect((await limiter.peek("org:1")).remaining).toBe(0);
+
+			// Each key's receipt refunds that key
+			await limiter.refund("org:1", { receipt: results.get("org:1")?.receipt });
+			expect((await limiter.peek("org:1")).remaining).toBe(2);
+		});
+
+		it("supports every strategy with allOrNothing", async () => {
+			const configs: Partial<RateLimiterConfig>[] = [
+				{ strategy: "sliding-window", limit: 2, window: 60 },
+				{ strategy: "sliding-window-counter", limit: 2, window: 60 },
+				{ strategy: "token-bucket", capacity: 2, refillRate: 0.001 },
+				{ strategy: "gcra", emissionInterval: 100, burst: 2 },
+			];
+			for (const [i, config] of configs.entries()) {
+				const limiter = createLimiter({ ...config, prefix: `rl${i}` });
+				await limiter.limit("user:1", { cost: 2 });
+
+				const rejected = await limiter.limitMany(["user:1", "org:1"], {
+					allOrNothing: true,
+				});
+				expect(rejected.get("org:1")?.allowed).toBe(false);
+				expect((await limiter.peek("org:1", { cost: 2 })).allowed).toBe(true);
+
+				await limiter.reset("user:1");
+				const allowed = await limiter.limitMany(["user:1", "org:1"], {
+					allOrNothing: true,
+					cost: 2,
+				});
+				expect(allowed.get("org:1")?.allowed).toBe(true);
+				expect((await limiter.peek("org:1")).allowed).toBe(false);
+			}
+		});
+
+		it("applies each key's override with allOrNothing", async () => {
+			const limiter = createLimiter();
+			await limiter.setOverride("user:1", { limit: 1 });
+
+			const results = await limiter.limitMany(["user:1", "org:1"], {
+				allOrNothing: true,
+				cost: 2,
+			});
+			expect(results.get("user:1")?.limit).toBe(1);
+			expect(results.get("user:1")?.allowed).toBe(false);
+			expect(results.get("org:1")?.limit).toBe(2);
+		});
+
+		it("combines each key's rules for a composite", async () => {
+			const limiter = createLimiter({
+				strategy: "composite",
+				rules: [
+					{ name: "burst", strategy: "fixed-window", limit: 1, window: 1 },
+					{ name: "hourly", strategy: "fixed-window", limit: 5, window: 3600 },
+				],
+			});
+			await limiter.limit("user:1");
+
+			const results = await limiter.limitMany(["user:1", "org:1"], {
+				allOrNothing: true,
+			});
+			expect(results.get("user:1")?.rule).toBe("burst");
+			expect(results.get("org:1")?.allowed).toBe(false);
+			expect((await limiter.peek("org:1")).remaining).toBe(1);
+		});
+
+		it("rejects the whole call when a key is banned", async () => {
+			const limiter = createLimiter({ penalty: {} });
+			await limiter.ban("user:1", 30);
+
+			const results = await limiter.limitMany(["user:1", "org:1"], {
+				allOrNothing: true,
+			});
+			expect(results.get("user:1")?.banned).toBe(true);
+			expect(results.get("org:1")?.allowed).toBe(false);
+			expect((await limiter.peek("org:1")).remaining).toBe(2);
+		});
+
+		it("peeks at several keys without consuming", async () => {
+			const limiter = createLimiter();
+			await limiter.limit("user:1");
+
+			const results = await limiter.peekMany(["user:1", "org:1", "user:1"]);
+			expect(results.size).toBe(2);
+			expect(results.get("user:1")?.remaining).toBe(1);
+			expect(results.get("org:1")?.remaining).toBe(2);
+			expect((await limiter.peek("org:1")).remaining).toBe(2);
+		});
+	});
+
+	describe("analytics", () => {
+		function createLimiter(
+			analytics: RateLimiterConfig["analytics"] = true,
+			clock?: RateLimiterConfig["clock"],
+		) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 1,
+				window: 60,
+				analytics,
+				clock,
+			});
+		}
+
+		it("counts allowed and denied calls per key", async () => {
+			// A fixed clock keeps the calls in one window and one bucket.
+			const limiter = createLimiter(true, () => 1708617630_000);
+
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+			await limiter.peek("user:1");
+
+			const usage = await limiter.usage("user:1");
+			expect(usage.allowed).toBe(1);
+			expect(usage.denied).toBe(2);
+			const current = usage.buckets.at(-1);
+			expect(current).toMatchObject({ allowed: 1, denied: 2 });
+			expect(current?.start).toBe(1708617600_000);
+		});
+
+		it("ranks the most denied keys", async () => {
+			const limiter = createLimiter(true, () => 1708617630_000);
+
+			for (const [key, calls] of [
+				["user:1", 3],
+				["user:2", 5],
+				["user:3", 1],
+			] as const) {
+				for (let i = 0; i < calls; i++) await limiter.limit(key);
+			}
+
+			expect(await limiter.topDenied({ count: 2 })).toEqual([
+				{ key: "user:2", denied: 4 },
+				{ key: "user:1", denied: 2 },
+			]);
+			expect(await limiter.topDenied({ to: 1708614000_000 })).toEqual([]);
+		});
+
+		it("bounds the buckets a query reads", async () => {
+			const limiter = createLimiter({ bucket: 1, retention: 3600 });
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+
+			// Thousands of buckets are summed a batch at a time.
+			expect(await limiter.topDenied()).toEqual([{ key: "user:1", denied: 1 }]);
+
+			const now = Date.now();
+			expect(await limiter.topDenied({ from: now, to: now - 60_000 })).toEqual(
+				[],
+			);
+			await expect(
+				limiter.topDenied({ from: now - 86_400_000, to: now }),
+			).rejects.toThrow(RangeError);
+			await expect(
+				limiter.usage("user:1", { from: now - 86_400_000, to: now }),
+			).rejects.toThrow(RangeError);
+			expect(() => createLimiter({ bucket: 1, retention: 86_400 })).toThrow(
+				RangeError,
+			);
+		});
+
+		it("keeps buckets apart from keys", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "sliding-window",
+				limit: 1,
+				window: 60,
+				clock: () => 1708617600_000,
+				analytics: true,
+			});
+
+			// A sliding window named like the current denied bucket would
+			// add its request IDs to it.
+			const key = "analytics:denied:1708617600";
+			await limiter.limit(key);
+			await limiter.limit(key);
+			expect(await limiter.topDenied()).toEqual([{ key, denied: 1 }]);
+		});
+
+		it("counts an acquire once, when it gets through", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 1,
+				refillRate: 20,
+				analytics: true,
+			});
+
+			await limiter.acquire("user:1");
+			await limiter.acquire("user:1");
+
+			expect(await limiter.usage("user:1")).toMatchObject({
+				allowed: 2,
+				denied: 0,
+			});
+		});
+
+		it("expires buckets after the retention period", async () => {
+			const limiter = createLimiter({ bucket: 10, retention: 30 });
+
+			await limiter.limit("user:1");
+			// Queries wait for the record to land.
+			await limiter.usage("user:1");
+			const [key] = await ctx.redis.keys("rl|analytics:allowed:*");
+			const ttl = await ctx.redis.pttl(key);
+			expect(ttl).toBeGreaterThan(30_000);
+			expect(ttl).toBeLessThanOrEqual(40_000);
+		});
+
+		it("needs analytics to be enabled", async () => {
+			const limiter = createLimiter(false);
+
+			await expect(limiter.usage("user:1")).rejects.toThrow();
+			await expect(limiter.topDenied()).rejects.toThrow();
+			expect(() => createLimiter({ bucket: 1.5 })).toThrow(RangeError);
+		});
+	});
+
+	describe("Redis failures", () => {
+		function createLimiter(
+			options: Pick<RateLimiterConfig, "onRedisError" | "timeout">,
+		) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "token-bucket",
+				capacity: 10,
+				refillRate: 1,
+				...options,
+			});
+		}
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("throws by default", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockRejectedValue(new Error("boom"));
+			const limiter = createLimiter({});
+
+			await expect(limiter.limit("user:1")).rejects.toThrow("boom");
+		});
+
+		it("fails open with onRedisError: allow", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockRejectedValue(new Error("boom"));
+			const limiter = createLimiter({ onRedisError: "allow" });
+
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(true);
+			expect(r.limit).toBe(10);
+			expect(r.fallback).toBe(true);
+		});
+
+		it("fails closed with onRedisError: deny", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockRejectedValue(new Error("boom"));
+			const limiter = createLimiter({ onRedisError: "deny" });
+
+			const r = await limiter.peek("user:1");
+			expect(r.allowed).toBe(false);
+			expect(r.retryAfter).toBeGreaterThan(0);
+			expect(r.fallback).toBe(true);
+		});
+
+		it("builds the result with a custom handler", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockRejectedValue(new Error("boom"));
+			const onRedisError = vi.fn(() => ({
+				allowed: true,
+				remaining: 1,
+				limit: 2,
+				retryAfter: 0,
+				resetAt: 0,
+			}));
+			const limiter = createLimiter({ onRedisError });
+
+			const r = await limiter.limit("user:1");
+			expect(r).toEqual({
+				allowed: true,
+				remaining: 1,
+				limit: 2,
+				retryAfter: 0,
+				resetAt: 0,
+				fallback: true,
+			});
+			expect(onRedisError).toHaveBeenCalledWith(expect.any(Error), "user:1");
+		});
+
+		it("gives up on a hanging call after the timeout", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockReturnValue(new Promise(() => {}));
+			const limiter = createLimiter({ timeout: 50 });
+
+			const started = Date.now();
+			await expect(limiter.limit("user:1")).rejects.toThrow(RedisTimeoutError);
+			expect(Date.now() - started).toBeLessThan(1000);
+		});
+
+		it("passes timeouts through onRedisError", async () => {
+			vi.spyOn(ctx.redis, "evalsha").mockReturnValue(new Promise(() => {}));
+			const limiter = createLimiter({ timeout: 50, onRedisError: "allow" });
+
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(true);
+			expect(r.fallback).toBe(true);
+		});
+
+		it("leaves normal results unflagged", async () => {
+			const limiter = createLimiter({ timeout: 1000, onRedisError: "deny" });
+
+			const r = await limiter.limit("user:1");
+			expect(r.allowed).toBe(true);
+			expect(r.fallback).toBeUndefined();
+		});
+	});
+
+	describe("deny cache", () => {
+		function createLimiter(denyCache: RateLimiterConfig["denyCache"]) {
+			return new RateLimiter({
+				redis: ctx.redis,
+				strategy: "sliding-window",
+				limit: 1,
+				window: 60,
+				denyCache,
+			});
+		}
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+		});
+
+		it("answers repeat rejections without touching Redis", async () => {
+			const limiter = createLimiter(true);
+			await limiter.limit("user:1");
+			const rejected = await limiter.limit("user:1");
+			expect(rejected.allowed).toBe(false);
+
+			const evalSpy = vi.spyOn(ctx.redis, "evalsha");
+
+			const r1 = await limiter.limit("user:1");
+			const r2 = await limiter.peek("user:1");
+			expect(r1.allowed).toBe(false);
+			expect(r2.allowed).toBe(false);
+			expect(r2.retryAfter).toBeGreaterThan(0);
+			expect(r2.retryAfter).toBeLessThanOrEqual(rejected.retryAfter);
+			expect(evalSpy).not.toHaveBeenCalled();
+
+			// Other keys still go to Redis
+			await limiter.limit("user:2");
+			expect(evalSpy).toHaveBeenCalledOnce();
+		});
+
+		it("still checks Redis for a cheaper call", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "fixed-window",
+				limit: 5,
+				window: 60,
+				denyCache: true,
+			});
+
+			await limiter.limit("user:1", { cost: 3 });
+			expect((await limiter.limit("user:1", { cost: 3 })).allowed).toBe(false);
+
+			expect((await limiter.limit("user:1", { cost: 2 })).allowed).toBe(true);
+		});
+
+		it("forgets the key once retryAfter passes", async () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "gcra",
+				emissionInterval: 0.2,
+				denyCache: true,
+			});
+
+			await limiter.limit("user:1");
+			expect((await limiter.limit("user:1")).allowed).toBe(false);
+
+			await new Promise((resolve) => setTimeout(resolve, 250));
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+
+		it("is cleared by reset", async () => {
+			const limiter = createLimiter(true);
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+
+			await limiter.reset("user:1");
+
+			expect((await limiter.limit("user:1")).allowed).toBe(true);
+		});
+
+		it("evicts the least recently used key beyond maxSize", async () => {
+			const limiter = createLimiter({ maxSize: 1 });
+			for (const key of ["user:1", "user:2"]) {
+				await limiter.limit(key);
+				await limiter.limit(key);
+			}
+
+			const evalSpy = vi.spyOn(ctx.redis, "evalsha");
+
+			await limiter.limit("user:2");
+			expect(evalSpy).not.toHaveBeenCalled();
+
+			await limiter.limit("user:1");
+			expect(evalSpy).toHaveBeenCalledOnce();
+		});
+
+		it("is off by default", async () => {
+			const limiter = createLimiter(undefined);
+			await limiter.limit("user:1");
+			await limiter.limit("user:1");
+
+			const evalSpy = vi.spyOn(ctx.redis, "evalsha");
+			await limiter.limit("user:1");
+			expect(evalSpy).toHaveBeenCalledOnce();
+		});
+	});
+
+	describe("rateLimitHeaders", () => {
+		it("renders the RateLimit headers for an allowed request", () => {
+			const headers = rateLimitHeaders(
+				{
+					allowed: true,
+					remaining: 7,
+					limit: 10,
+					retryAfter: 0,
+					resetAt: Date.now() + 29_500,
+				},
+				"10;w=60",
+			);
+
+			expect(headers).toEqual({
+				"RateLimit-Limit": "10",
+				"RateLimit-Remaining": "7",
+				"RateLimit-Reset": "30",
+				"RateLimit-Policy": "10;w=60",
+			});
+		});
+
+		it("adds Retry-After, rounded up, for a rejected request", () => {
+			const headers = rateLimitHeaders({
+				allowed: false,
+				remaining: 0,
+				limit: 10,
+				retryAfter: 2.2,
+				resetAt: Date.now() + 2_200,
+			});
+
+			expect(headers["Retry-After"]).toBe("3");
+			expect(headers["RateLimit-Policy"]).toBeUndefined();
+		});
+
+		it("derives the policy from the limiter's config", () => {
+			const limiter = new RateLimiter({
+				redis: ctx.redis,
+				strategy: "composite",
+				rules: [
+					{ strategy: "token-bucket", capacity: 10, refillRate: 10 },
+					{ strategy: "sliding-window", limit: 500, window: 3600 },
+				],
+			});
+
+			expect(limiter.policy).toBe("10;w=1, 500;w=3600");
+		});
+	});
+
+	it("rejects a cost that isn't a positive integer", async () => {
+		const limiter = new RateLimiter({
+			redis: ctx.redis,
+			strategy: "fixed-window",
+			limit: 10,
+			window: 60,
+		});
+
+		await expect(limiter.limit("user:1", { cost: 0 })).rejects.toThrow(
+			RangeError,
+		);
+		await expect(limiter.peek("user:1", { cost: 1.5 })).rejects.toThrow(
+			RangeError,
+		);
 	});
 });
@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { defineScript, evalScript } from "../src/utils/script.js";
+import { useRedis } from "./setup.js";
+
+describe("evalScript", () => {
+	const ctx = useRedis();
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	// A source no other test has run, so the server hasn't cached it.
+	function freshScript() {
+		return defineScript(
+			`-- ${Math.random()}`,
+			"return redis.call('INCRBY', KEYS[1], ARGV[1])",
+		);
+	}
+
+	it("sends the source once, then runs the script by SHA", async () => {
+		const script = freshScript();
+		const evalSpy = vi.spyOn(ctx.redis, "eval");
+		const evalshaSpy = vi.spyOn(ctx.redis, "evalsha");
+
+		expect(await evalScript(ctx.redis, script, 1, "counter", 2)).toBe(2);
+		expect(await evalScript(ctx.redis, script, 1, "counter", 3)).toBe(5);
+
+		expect(evalSpy).toHaveBeenCalledOnce();
+		expect(evalshaSpy).toHaveBeenCalledTimes(2);
+		expect(evalshaSpy).toHaveBeenCalledWith(script.sha, 1, "counter", 3);
+	});
+
+	it("passes on errors other than NOSCRIPT", async () => {
+		const script = freshScript();
+		vi.spyOn(ctx.redis, "evalsha").mockRejectedValue(new Error("boom"));
+		const evalSpy = vi.spyOn(ctx.redis, "eval");
+
+		await expect(
+			evalScript(ctx.redis, script, 1, "counter", 1),
+		).rejects.toThrow("boom");
+		expect(evalSpy).not.toHaveBeenCalled();
+	});
+
+	it("joins preludes and the script into one source", () => {
+		const script = defineScript("local a = 1", "return a");
+		expect(script.source).toBe("local a = 1\nreturn a");
+		expect(script.sha).toMatch(/^[0-9a-f]{40}$/);
+	});
+});
@@ -6,4 +6,6 @@ export default defineConfig({
   dts: true,
   sourcemap: true,
   clean: true,
+  // Embed Lua scripts as strings (see src/utils/script.ts).
+  loader: { ".lua": "text" },
 });
@@ -1,6 +1,16 @@
 import { defineConfig } from "vitest/config";
 
 export default defineConfig({
+  plugins: [
+    {
+      // Import .lua files as text, like tsup's text loader in the build.
+      name: "lua-text",
+      transform(code, id) {
+        if (!id.endsWith(".lua")) return null;
+        return { code: `export default ${JSON.stringify(code)};`, map: null };
+      },
+    },
+  ],
   test: {
     testTimeout: 15_000,
     hookTimeout: 30_000,